@@ -1,56 +1,95 @@
 import { NextRequest, NextResponse } from "next/server";
-import { openai } from "@/lib/agent/model";
-import { ModelResponseSchema } from "@/lib/agent/modelSchema";
+import { AgentApiRequestSchema } from "@/lib/agent/modelSchema";
+import { completeStructured, recordModelDiagnostic } from "@/lib/agent/structuredOutput";
 import { buildPrompt } from "@/lib/agent/statePrompt";
-import { nextExecState, clampFinalists, clampDiscovery } from "@/lib/agent/stateMachine";
+import { advanceOnUserMessage, transition, clampFinalists, clampDiscovery } from "@/lib/agent/stateMachine";
 import { makeCandidate } from "@/lib/agent/scoring";
-import type { AgentApiRequest, AgentApiResponse, AgentSession } from "@/lib/agent/schema";
+import type {
+  AgentApiRequest,
+  AgentApiResponse,
+  AgentSession,
+  Constraint,
+  ConstraintEdit,
+  ConstraintTier,
+  IterationRecord,
+} from "@/lib/agent/schema";
 import { normalizeSession, computeCanonicalBoundary } from "@/lib/agent/normalize";
-import { runLiveExplore } from "@/lib/market/liveExplore";
-import type { AgentState } from "@/lib/agent/schema";
+import { constraintTexts, describeConstraint } from "@/lib/agent/constraints";
+import { buildCloseSummary, recordExploreRun } from "@/lib/agent/summary";
+import { applyIteration, compareRuns, currentEdits, parseEditSelection, renderBoundaryDiff } from "@/lib/agent/iterate";
+import { runLiveExplore, type ExploreMeta } from "@/lib/market/liveExplore";
+import type { CandidateSignals } from "@/lib/market/normalizeCandidate";
 import { decide } from "@/lib/market/decide";
 import { ensureWatch } from "@/lib/market/watch";
+import { appendTurn, getSessionRecord, newId } from "@/lib/agent/sessionStore";
 const featureFlags = { liveExplore: true };
 
 export async function POST(req: NextRequest) {
-  const { session, userMessage }: AgentApiRequest = await req.json();
+  const body = await req.json().catch(() => null);
+  const parsed = AgentApiRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid chat request", issues: parsed.error.issues }, { status: 400 });
+  }
+  const { sessionId, userMessage, userImages } = parsed.data satisfies AgentApiRequest;
+
+  // The stored session is authoritative; clients only name it.
+  const record = getSessionRecord(sessionId);
+  if (!record) {
+    return NextResponse.json({ error: `Session not found: ${sessionId}` }, { status: 404 });
+  }
+
+  const userAt = Date.now();
+  const result = await runTurn(record.session, userMessage, userImages ?? []);
+
+  const stored = appendTurn(result.session, [
+    {
+      id: newId(),
+      role: "user",
+      content: userMessage,
+      images: userImages?.length ? userImages : undefined,
+      timestamp: userAt,
+    },
+    {
+      id: newId(),
+      role: "assistant",
+      content: result.userFacingMessage,
+      timestamp: Date.now(),
+    },
+  ]);
+  // Deleted while the turn ran: do not resurrect it
+  if (!stored) {
+    return NextResponse.json({ error: `Session not found: ${sessionId}` }, { status: 404 });
+  }
+
+  return NextResponse.json(result satisfies AgentApiResponse);
+}
 
+async function runTurn(session: AgentSession, userMessage: string, userImages: string[]): Promise<AgentApiResponse> {
   let working: AgentSession = {
     ...session,
     last_user_message: userMessage,
   };
 
-  // 0) Deterministic command routing (user control inputs)
-  const cmd = parseUserCommand(userMessage, session.state);
+  // 0-1) Deterministic command routing (user control inputs), otherwise
+  // advance as a plain turn. Both go through the transition table.
+  working = advanceOnUserMessage(working, userMessage);
 
-  // If a command applies, override state directly.
-  if (cmd) {
-    working.state = cmd;
-  } else {
-  // 1) Otherwise advance state deterministically (authoritative)
-    working.state = nextExecState(working);
+  // S7 needs no model step: build the summary artifact once and show it
+  if (working.state === "S7_CLOSE") {
+    return closeSession(working, userImages);
   }
 
   // 2) Ask model for structured outputs ONLY
   const prompt = buildPrompt(working, userMessage);
 
   try {
-    const response = await openai.responses.create({
-      model: "gpt-4.1-mini",
-      input: prompt,
-    });
-
-    const raw = getOutputText(response);
-    const jsonText = extractJsonObject(raw);
-    const parsed = ModelResponseSchema.safeParse(JSON.parse(jsonText));
-
-    if (!parsed.success) {
-      console.error("Raw model output:", raw);
-      console.error("Zod issues:", parsed.error.issues);
-      throw new Error("Model JSON did not match schema");
+    const { data: modelData, diagnostic } = await completeStructured(working, prompt, userMessage);
+    if (diagnostic) {
+      working = recordModelDiagnostic(working, diagnostic);
+    }
+    if (!modelData) {
+      throw new Error(diagnostic?.attempts.at(-1)?.error ?? "Model output unusable");
     }
-
-    const modelData = parsed.data;
 
     // 3) Merge patch into session (controlled, deterministic)
     if (modelData.patch) {
@@ -67,43 +106,68 @@ export async function POST(req: NextRequest) {
       typeof userMessage === "string" &&
       userMessage.toLowerCase().includes("watch")
     ) {
-      const { watch, created } = ensureWatch(working);
+      const { watch, created, updated } = ensureWatch(working);
 
       working.watch = watch;
-      working.state = "S5_WATCH";
+      working = transition(working, "watch_created", { command: userMessage });
 
       const msg =
         `S5 Watch\n\n` +
         (created
           ? `This search is now being monitored.\n`
-          : `This search was already being monitored.\n`) +
+          : updated
+            ? `Updated the existing watch for this search.\n`
+            : `This search was already being monitored.\n`) +
         `\nI’ll notify you when a listing appears that meets all Tier 1 constraints.`;
 
-      return NextResponse.json({
+      return {
         userFacingMessage: msg,
         session: working,
-      });
+      };
+    }
+
+    // ---- S6 Iterate: apply picked/described edits, then re-run Explore ----
+    let iteration: IterationRecord | null = null;
+    if (working.state === "S6_ITERATE") {
+      const suggested = currentEdits(session);
+      const result = applyIteration(session, working, parseEditSelection(userMessage, suggested));
+
+      if (!result) {
+        return {
+          userFacingMessage: renderIteratePrompt(suggested),
+          session: working,
+        };
+      }
+
+      iteration = result.record;
+      working = transition(result.session, "edits_applied", { command: userMessage });
     }
 
     // ---- Live Explore (S3) ----
     if (working.state === "S3_EXPLORE" && featureFlags.liveExplore) {
       let explored: AgentSession = working;
-      let meta: { fetched: number; used: number } | null = null;
+      let meta: ExploreMeta | null = null;
+      let pool: CandidateSignals[] | undefined;
+      let exploreError: string | null = null;
 
       try {
         const exploreResult = await runLiveExplore(working);
         explored = { ...working, ...exploreResult.session };
         meta = exploreResult.meta;
+        pool = exploreResult.pool;
       } catch (e) {
         console.error("Live Explore failed; falling back to placeholder:", e);
+        exploreError = e instanceof Error ? e.message : String(e);
       }
 
-      explored.state = "S4_DECIDE";
+      explored = transition(explored, "explore_done");
 
       // ---- S3 Explore message ----
       const exploreMsg =
         `S3 Explore (live)\n\n` +
-        `Fetched ${meta?.used ?? "?"} listings (provider: Auto.dev). Showing bounded finalists/discovery.\n\n` +
+        `Fetched ${meta?.fetched ?? "?"} listings (${meta?.used ?? "?"} used after dedupe). Showing bounded finalists/discovery.\n\n` +
+        (meta ? renderProviderLines(meta) + "\n\n" : "") +
+        (exploreError ? `⚠️ Live search failed: ${exploreError}\n\n` : "") +
         `Finalists (≤5):\n` +
         (explored.finalists?.length
           ? explored.finalists
@@ -124,13 +188,22 @@ export async function POST(req: NextRequest) {
           : "— none —");
 
       // ---- S4 Decide ----
-      const { decision, message: decideMsg } = decide(explored);
+      const { decision, message: decideMsg } = decide(explored, { pool });
       explored.decision = decision;
+      explored = recordExploreRun(explored);
+
+      if (iteration) {
+        const compareMsg = `Compared with the previous run:\n${compareRuns(iteration.prior, explored).join("\n")}`;
+        return {
+          userFacingMessage: `${renderIteration(iteration)}\n\n${exploreMsg}\n\n${compareMsg}\n\n${decideMsg}`,
+          session: explored,
+        };
+      }
 
-      return NextResponse.json({
+      return {
         userFacingMessage: `${exploreMsg}\n\n${decideMsg}`,
         session: explored,
-      });
+      };
     }
 
     // 4) Enforce caps defensively (if any candidates already exist)
@@ -154,16 +227,57 @@ export async function POST(req: NextRequest) {
     //  } satisfies AgentApiResponse);
     //}
 
-    return NextResponse.json({
+    return {
       userFacingMessage,
       session: working,
-    } satisfies AgentApiResponse);
+    };
   } catch (err) {
     console.error("Model error, falling back:", err);
-    return NextResponse.json(runStubStep(working, []));
+    return runStubStep(working, userImages);
   }
 }
 
+function renderProviderLines(meta: ExploreMeta): string {
+  return meta.providers
+    .map((p) =>
+      p.error
+        ? `- ${p.label}: failed (${p.error})`
+        : `- ${p.label}: ${p.fetched} fetched, ${p.used} used`
+    )
+    .join("\n") +
+    `\n- Depth: ${meta.stats.pagesScanned} page(s), stop reason: ${meta.stats.stopReason.replace(/_/g, " ")}`;
+}
+
+function renderIteratePrompt(edits: ConstraintEdit[]): string {
+  return (
+    "S6 Iterate\n\n" +
+    (edits.length
+      ? "Suggested edits:\n" +
+        edits
+          .map((e) => `${e.id}. ${e.label}${e.impact ? ` (unlocks ${e.impact.unlocked} of the fetched listings)` : ""}`)
+          .join("\n") + "\n\n" +
+        "Reply with the numbers to apply (e.g. **1 3**, or **all**), or describe a change in your own words " +
+        "(e.g. \"relax color to any yellow\"). "
+      : "Describe the change you want (e.g. \"relax color to any yellow\"). ") +
+    "I’ll show the boundary before/after and re-run Explore.\n\n" +
+    "Reply **cancel** to keep the current boundary."
+  );
+}
+
+function renderIteration(it: IterationRecord): string {
+  const tiers = (t: ConstraintTier) =>
+    `- Tier 1: ${t.tier1.map(describeConstraint).join("; ") || "(none)"}\n` +
+    `- Tier 2: ${t.tier2.map(describeConstraint).join("; ") || "(none)"}`;
+
+  return (
+    "S6 Iterate\n\n" +
+    (it.applied.length ? `Applied: ${it.applied.join("; ")}\n\n` : "") +
+    `Changes:\n${renderBoundaryDiff(it.diff).join("\n")}\n\n` +
+    `Boundary before:\n${tiers(it.before)}\n\n` +
+    `Boundary after:\n${tiers(it.after)}`
+  );
+}
+
 function mergePatch(session: AgentSession, patch: any): AgentSession {
   const s = structuredClone(session) as AgentSession;
 
@@ -179,6 +293,11 @@ function mergePatch(session: AgentSession, patch: any): AgentSession {
         ...(s.intent.budget ?? {}),
         ...(patch.intent.budget ?? {}),
       },
+      usage: {
+        ...(s.intent.usage ?? {}),
+        ...(patch.intent.usage ?? {}),
+      },
+      location: patch.intent.location ?? s.intent.location,
     } as any;
   }
 
@@ -239,18 +358,38 @@ function renderMessage(session: AgentSession, modelData: any): string {
     return (
       "S2 Confirm\n\n" +
       "**Boundary (what qualifies):**\n" +
-      `- Tier 1 (non-negotiable): ${tier1.length ? tier1.join("; ") : "(none captured yet)"}\n` +
-      `- Tier 2 (strong preferences): ${tier2.length ? tier2.join("; ") : "(none captured yet)"}\n\n` +
+      `- Tier 1 (non-negotiable):\n${tier1.length ? renderBoundaryLines(tier1) : "  - (none captured yet)"}\n` +
+      `- Tier 2 (strong preferences):\n${tier2.length ? renderBoundaryLines(tier2) : "  - (none captured yet)"}\n\n` +
       `**Hard rejections:** ${rejects.length ? rejects.join("; ") : "(none captured yet)"}\n\n` +
       `**Acceptable compromises:** ${compromises.length ? compromises.join("; ") : "(none proposed)"}\n\n` +
       "Reply **confirm** to proceed to Explore (S3), or edit any rule."
     );
   }
 
+  // Re-entering Decide without a new search (e.g. "cancel" from S6)
+  if (state === "S4_DECIDE" && session.decision) {
+    return decide(session).message;
+  }
+
   // For other states, we allow stub to handle messaging.
   return "";
 }
 
+/**
+ * One line per original phrase, followed by how it was understood,
+ * e.g. "Speed Yellow only → exterior color = Speed Yellow".
+ */
+function renderBoundaryLines(constraints: Constraint[]): string {
+  return constraintTexts(constraints)
+    .map((text) => {
+      const parsed = constraints
+        .filter((c) => c.text === text && c.attribute !== "other")
+        .map(describeConstraint);
+      return `  - ${text}${parsed.length ? ` → ${parsed.join("; ")}` : ""}`;
+    })
+    .join("\n");
+}
+
 function computeMissingForS1(session: AgentSession): Array<{ key: string; question: string }> {
   const missing: Array<{ key: string; question: string }> = [];
 
@@ -294,8 +433,8 @@ function runStubStep(session: AgentSession, userImages: string[]): AgentApiRespo
   }
 
   if (s.state === "S2_CONFIRM") {
-    const tier1 = s.constraints.tier1.length ? s.constraints.tier1 : ["(add Tier 1 constraints)"];
-    const tier2 = s.constraints.tier2.length ? s.constraints.tier2 : ["(add Tier 2 constraints)"];
+    const tier1 = s.constraints.tier1.length ? constraintTexts(s.constraints.tier1) : ["(add Tier 1 constraints)"];
+    const tier2 = s.constraints.tier2.length ? constraintTexts(s.constraints.tier2) : ["(add Tier 2 constraints)"];
     const rejects = s.taste.rejection_rules.length ? s.taste.rejection_rules : ["(add rejection rules)"];
 
     const msg =
@@ -373,8 +512,8 @@ function runStubStep(session: AgentSession, userImages: string[]): AgentApiRespo
   }
 
   if (s.state === "S5_WATCH") {
-    const must = s.constraints.tier1.length ? s.constraints.tier1 : ["(define must-have constraints)"];
-    const acceptable = s.constraints.tier2.length ? s.constraints.tier2 : ["(define strong preferences)"];
+    const must = s.constraints.tier1.length ? constraintTexts(s.constraints.tier1) : ["(define must-have constraints)"];
+    const acceptable = s.constraints.tier2.length ? constraintTexts(s.constraints.tier2) : ["(define strong preferences)"];
     const reject = s.taste.rejection_rules.length ? s.taste.rejection_rules : ["(define rejections)"];
 
     s.watch = {
@@ -397,87 +536,27 @@ function runStubStep(session: AgentSession, userImages: string[]): AgentApiRespo
     return { userFacingMessage: msg, session: s };
   }
 
-  s.state = "S7_CLOSE";
-  const msg =
-    `S7 Close\n\nSession closed.\n` +
-    `- State snapshot saved in artifacts\n` +
-    (userImages.length ? `- ${userImages.length} user image(s) attached (v1-lite)\n` : "");
-
-  return { userFacingMessage: msg, session: s };
-}
-
-function getOutputText(response: any): string {
-  if (typeof response?.output_text === "string" && response.output_text.trim()) {
-    return response.output_text.trim();
+  if (s.state === "S6_ITERATE") {
+    return { userFacingMessage: renderIteratePrompt(currentEdits(s)), session: s };
   }
-  const out = response?.output;
-  if (Array.isArray(out)) {
-    const chunks: string[] = [];
-    for (const item of out) {
-      const content = item?.content;
-      if (Array.isArray(content)) {
-        for (const c of content) {
-          if (c?.type === "output_text" && typeof c?.text === "string") chunks.push(c.text);
-        }
-      }
-    }
-    const joined = chunks.join("").trim();
-    if (joined) return joined;
-  }
-  throw new Error("No output text found in response");
-}
 
-function extractJsonObject(text: string): string {
-  const start = text.indexOf("{");
-  if (start === -1) throw new Error("No JSON object found in model output");
-
-  let depth = 0;
-  let inString = false;
-  let escape = false;
-
-  for (let i = start; i < text.length; i++) {
-    const ch = text[i];
-
-    if (inString) {
-      if (escape) escape = false;
-      else if (ch === "\\") escape = true;
-      else if (ch === '"') inString = false;
-      continue;
-    } else {
-      if (ch === '"') {
-        inString = true;
-        continue;
-      }
-      if (ch === "{") depth++;
-      if (ch === "}") depth--;
-      if (depth === 0) {
-        return text.slice(start, i + 1);
-      }
-    }
-  }
-
-  throw new Error("Unterminated JSON object in model output");
+  return closeSession(s, userImages);
 }
 
-function parseUserCommand(userMessage: string, priorState: AgentState): AgentState | null {
-  const t = userMessage.trim().toLowerCase();
-
-  // Confirm in S2 proceeds to explore
-  if (priorState === "S2_CONFIRM" && /^confirm\b/.test(t)) return "S3_EXPLORE";
-
-  // Allow watch directly from explore
-  if (priorState === "S3_EXPLORE" && /^watch\b/.test(t)) return "S5_WATCH";
-
-  // After explore, any reply can proceed to decide (optional: require "decide")
-  if (priorState === "S3_EXPLORE" && (/^act\b/.test(t) || /^decide\b/.test(t) || /^confirm\b/.test(t))) {
-    return "S4_DECIDE";
-  }
-
-  // Explicit watch request from decide
-  if (priorState === "S4_DECIDE" && /^watch\b/.test(t)) return "S5_WATCH";
+function closeSession(session: AgentSession, userImages: string[]): AgentApiResponse {
+  let s = session.state === "S7_CLOSE" ? session : transition(session, "close");
+  const summary = s.summary ?? buildCloseSummary(s);
+  s = { ...s, summary };
 
-  // Optional: allow revise to jump back to S1
-  if ((priorState === "S2_CONFIRM" || priorState === "S4_DECIDE") && /^revise\b/.test(t)) return "S1_CAPTURE";
+  const d = summary.decision;
+  const msg =
+    `S7 Close\n\nSession closed. The summary is in Artifacts → **Summary** (downloadable).\n` +
+    (d ? `- Decision: ${d.action}${summary.selected ? ` — ${summary.selected.title}` : ""}\n` : "- Decision: (none reached)\n") +
+    (summary.watch ? `- Watch: ${summary.watch.cadence ?? "daily"}, ${summary.watch.must_have.length} must-have rule(s)\n` : "") +
+    `- Explore runs: ${summary.explore_runs.length}` +
+    (summary.iterations ? ` (${summary.iterations} revision${summary.iterations === 1 ? "" : "s"})` : "") +
+    `\n- Transitions logged: ${summary.timeline.length}\n` +
+    (userImages.length ? `- ${userImages.length} user image(s) attached (v1-lite)\n` : "");
 
-  return null;
-}
\ No newline at end of file
+  return { userFacingMessage: msg, session: s };
+}
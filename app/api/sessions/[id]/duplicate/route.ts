@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { SessionResponse } from "@/lib/agent/schema";
+import { duplicateSession } from "@/lib/agent/sessionStore";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+/**
+ * Fork a session at its confirmed boundary (see duplicateSession).
+ */
+export async function POST(_req: NextRequest, { params }: Ctx) {
+  const { id } = await params;
+  const record = duplicateSession(id);
+  if (!record) return NextResponse.json({ error: `Session not found: ${id}` }, { status: 404 });
+
+  return NextResponse.json({ session: record.session, messages: record.messages } satisfies SessionResponse);
+}
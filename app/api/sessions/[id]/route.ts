@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { SessionResponse } from "@/lib/agent/schema";
+import { SessionUpdateSchema } from "@/lib/agent/modelSchema";
+import { deleteSession, getSessionRecord, renameSession, setSessionScoring, summarize } from "@/lib/agent/sessionStore";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+export async function GET(_req: NextRequest, { params }: Ctx) {
+  const { id } = await params;
+  const record = getSessionRecord(id);
+  if (!record) return NextResponse.json({ error: `Session not found: ${id}` }, { status: 404 });
+
+  return NextResponse.json({ session: record.session, messages: record.messages } satisfies SessionResponse);
+}
+
+/**
+ * Rename and/or set the scoring profile. Body: { title?, scoring? }
+ */
+export async function PATCH(req: NextRequest, { params }: Ctx) {
+  const { id } = await params;
+
+  const body = await req.json().catch(() => null);
+  const parsed = SessionUpdateSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid session update", issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const { title, scoring } = parsed.data;
+  let record = getSessionRecord(id);
+  if (record && title !== undefined) record = renameSession(id, title);
+  if (record && scoring !== undefined) record = setSessionScoring(id, scoring);
+  if (!record) return NextResponse.json({ error: `Session not found: ${id}` }, { status: 404 });
+
+  return NextResponse.json({ summary: summarize(record), session: record.session });
+}
+
+export async function DELETE(_req: NextRequest, { params }: Ctx) {
+  const { id } = await params;
+  if (!deleteSession(id)) return NextResponse.json({ error: `Session not found: ${id}` }, { status: 404 });
+
+  return NextResponse.json({ deleted: id });
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import type { SessionResponse } from "@/lib/agent/schema";
+import { createSessionRecord, listSessionSummaries } from "@/lib/agent/sessionStore";
+
+export async function GET() {
+  return NextResponse.json({ sessions: listSessionSummaries() });
+}
+
+export async function POST() {
+  const { session, messages } = createSessionRecord();
+  return NextResponse.json({ session, messages } satisfies SessionResponse);
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { WatchUpdateSchema } from "@/lib/agent/modelSchema";
+import { applyWatchUpdate } from "@/lib/market/watch";
+import { deleteWatch, getWatchRecord, updateWatchRecord } from "@/lib/market/watchStore";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+export async function GET(_req: NextRequest, { params }: Ctx) {
+  const { id } = await params;
+  const watch = getWatchRecord(id);
+  if (!watch) return NextResponse.json({ error: `Watch not found: ${id}` }, { status: 404 });
+
+  return NextResponse.json({ watch });
+}
+
+/**
+ * Pause/resume and edit cadence, budget, geography or notification channels.
+ * Body: { status?, cadence?, budget?, geography?, notify? }
+ */
+export async function PATCH(req: NextRequest, { params }: Ctx) {
+  const { id } = await params;
+  const existing = getWatchRecord(id);
+  if (!existing) return NextResponse.json({ error: `Watch not found: ${id}` }, { status: 404 });
+
+  const body = await req.json().catch(() => null);
+  const parsed = WatchUpdateSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid watch update", issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const { status, ...specPatch } = parsed.data;
+  const watch = updateWatchRecord(existing.id, {
+    spec: applyWatchUpdate(existing.spec, specPatch),
+    ...(status ? { status } : {}),
+  });
+
+  return NextResponse.json({ watch });
+}
+
+export async function DELETE(_req: NextRequest, { params }: Ctx) {
+  const { id } = await params;
+  if (!deleteWatch(id)) return NextResponse.json({ error: `Watch not found: ${id}` }, { status: 404 });
+
+  return NextResponse.json({ deleted: id });
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getWatchRecord } from "@/lib/market/watchStore";
+import { runWatch } from "@/lib/market/watchRunner";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+/**
+ * Manual trigger: runs the watch now regardless of cadence or pause state.
+ */
+export async function POST(_req: NextRequest, { params }: Ctx) {
+  const { id } = await params;
+  const watch = getWatchRecord(id);
+  if (!watch) return NextResponse.json({ error: `Watch not found: ${id}` }, { status: 404 });
+
+  const result = await runWatch(watch);
+  return NextResponse.json({ watch: getWatchRecord(watch.id), result });
+}
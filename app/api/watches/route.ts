@@ -0,0 +1,6 @@
+import { NextResponse } from "next/server";
+import { listWatchRecords } from "@/lib/market/watchStore";
+
+export async function GET() {
+  return NextResponse.json({ watches: listWatchRecords() });
+}
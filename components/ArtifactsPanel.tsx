@@ -1,18 +1,30 @@
 "use client";
 
 import { useMemo } from "react";
-import type { AgentSession } from "@/lib/agent/schema";
+import type { AgentSession, ScoringProfileName } from "@/lib/agent/schema";
+import { resolveScoringProfile, SCORING_PROFILES } from "@/lib/market/scoringProfile";
 
-export type ArtifactsTab = "Session" | "Intent" | "Taste" | "Constraints" | "Finalists" | "Watch";
+export type ArtifactsTab =
+  | "Session"
+  | "Intent"
+  | "Taste"
+  | "Constraints"
+  | "Finalists"
+  | "Scoring"
+  | "Watch"
+  | "Events"
+  | "Summary";
 
 export default function ArtifactsPanel({
   session,
   tab,
   setTab,
+  onScoringProfile,
 }: {
   session: AgentSession;
   tab: ArtifactsTab;
   setTab: (t: ArtifactsTab) => void;
+  onScoringProfile?: (profile: ScoringProfileName | null) => void; // null = pick from intent
 }) {
   const payload = useMemo(() => {
     switch (tab) {
@@ -25,9 +37,29 @@ export default function ArtifactsPanel({
       case "Constraints":
         return session.constraints;
       case "Finalists":
-        return { finalists: session.finalists, discovery: session.discovery };
+        return {
+          finalists: session.finalists,
+          discovery: session.discovery,
+          // Run replaced by the latest S6 revision, for comparison
+          previous: session.iterations?.[session.iterations.length - 1]?.prior,
+        };
+      case "Scoring":
+        return {
+          profile: resolveScoringProfile(session),
+          // Where each candidate's points came from (as scored by the last Explore)
+          candidates: [...session.finalists, ...session.discovery].map((c) => ({
+            title: c.title,
+            verdict: c.verdict,
+            score: c.score,
+            breakdown: c.breakdown,
+          })),
+        };
       case "Watch":
         return session.watch ?? { note: "No watch spec yet." };
+      case "Events":
+        return session.event_log ?? { note: "No transitions yet." };
+      case "Summary":
+        return session.summary ?? { note: "Available once the session closes (S7). Reply “close” to finish." };
       default:
         return session;
     }
@@ -43,7 +75,7 @@ export default function ArtifactsPanel({
     URL.revokeObjectURL(url);
   }
 
-  const tabs: ArtifactsTab[] = ["Session", "Intent", "Taste", "Constraints", "Finalists", "Watch"];
+  const tabs: ArtifactsTab[] = ["Session", "Intent", "Taste", "Constraints", "Finalists", "Scoring", "Watch", "Events", "Summary"];
 
   return (
     <aside className="min-w-0 rounded-2xl border border-neutral-800 bg-neutral-900 p-4">
@@ -76,6 +108,25 @@ export default function ArtifactsPanel({
         ))}
       </div>
 
+      {tab === "Scoring" && onScoringProfile ? (
+        <label className="mt-3 flex items-center gap-2 text-xs text-neutral-300">
+          Profile
+          <select
+            value={session.scoring?.profile ?? ""}
+            onChange={(e) => onScoringProfile((e.target.value || null) as ScoringProfileName | null)}
+            className="rounded-lg border border-neutral-700 bg-neutral-950 px-2 py-1 text-xs text-neutral-100"
+          >
+            <option value="">From intent ({SCORING_PROFILES[resolveScoringProfile({ ...session, scoring: undefined }).name].label})</option>
+            {(Object.keys(SCORING_PROFILES) as ScoringProfileName[]).map((name) => (
+              <option key={name} value={name}>
+                {SCORING_PROFILES[name].label}
+              </option>
+            ))}
+          </select>
+          <span className="text-neutral-500">applies on the next search</span>
+        </label>
+      ) : null}
+
       <pre className="mt-3 max-h-[70vh] min-w-0 overflow-auto whitespace-pre-wrap break-words rounded-xl border border-neutral-800 bg-neutral-950 p-3 text-xs text-neutral-200">
 {JSON.stringify(payload, null, 2)}
       </pre>
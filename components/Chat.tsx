@@ -3,60 +3,43 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
-import type { AgentApiResponse, AgentSession, ChatMessage } from "@/lib/agent/schema";
+import type {
+  AgentApiRequest,
+  AgentApiResponse,
+  AgentSession,
+  ChatMessage,
+  ScoringProfileName,
+  SessionResponse,
+  SessionSummary,
+} from "@/lib/agent/schema";
+import { defaultSession, greetingMessage } from "@/lib/agent/session";
 import StateBadge from "@/components/StateBadge";
 import ArtifactsPanel, { type ArtifactsTab } from "@/components/ArtifactsPanel";
 import ImageDropzone from "@/components/ImageDropzone";
+import SessionSidebar from "@/components/SessionSidebar";
 
 
 
-function deterministicSession(): AgentSession {
-  return {
-    id: "session-0",
-    state: "S0_INIT",
-    goal_type: "vehicle_hunt",
-    intent: {
-      goal_type: "vehicle_hunt",
-      vehicle: {},
-      goal: {},
-      usage: { street_bias: "high", track_bias: "low", show_bias: "low" },
-      horizon: "long_term",
-      budget: {},
-    },
-    constraints: { tier1: [], tier2: [], tier3: [] },
-    taste: {
-      era_correctness: "medium",
-      materials_allowed: [],
-      materials_excluded: [],
-      aesthetics: { aggression: "medium", branding: "subtle" },
-      authenticity: { oem: "preferred", repro: "conditional" },
-      rejection_rules: [],
-    },
-    finalists: [],
-    discovery: [],
-    notes: [],
-  };
-}
+const LAST_SESSION_KEY = "aaa:lastSessionId";
+const SESSION_LIBRARY_KEY = "aaa:sessions";
 
-function deterministicMessages(): ChatMessage[] {
-  return [
-    {
-      id: "msg-0",
-      role: "assistant",
-      content:
-        "Initialized v1. Paste a test case (e.g., your Boxster hunt or E92 interior swap). You can optionally upload images.",
-      timestamp: 0,
-    },
-  ];
+function placeholderMessages(): ChatMessage[] {
+  return [greetingMessage("msg-0", 0)];
 }
 
-function newSession(): AgentSession {
-  return { ...deterministicSession(), id: cryptoRandomId() };
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  if (!res.ok) {
+    const errText = await res.text();
+    throw new Error(errText || "API error");
+  }
+  return (await res.json()) as T;
 }
 
 export default function Chat() {
-  const [session, setSession] = useState<AgentSession>(() => deterministicSession());
-  const [messages, setMessages] = useState<ChatMessage[]>(() => deterministicMessages());
+  const [session, setSession] = useState<AgentSession>(() => defaultSession("session-0"));
+  const [messages, setMessages] = useState<ChatMessage[]>(() => placeholderMessages());
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
   const [draft, setDraft] = useState("");
   const [images, setImages] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
@@ -64,16 +47,91 @@ export default function Chat() {
   const scrollRef = useRef<HTMLDivElement | null>(null);
   const endRef = useRef<HTMLDivElement | null>(null);
 
-  // After hydration, replace deterministic placeholders with real session ids
-  useEffect(() => {
-    setSession(newSession());
-    setMessages(
-      deterministicMessages().map((m) => ({
-        ...m,
+  function adopt(data: SessionResponse) {
+    setSession(data.session);
+    setMessages(data.messages);
+    window.localStorage.setItem(LAST_SESSION_KEY, data.session.id);
+  }
+
+  // The server is authoritative; browser storage keeps the library visible
+  // immediately on load (and if the server is unreachable).
+  function setLibrary(list: SessionSummary[]) {
+    setSessions(list);
+    window.localStorage.setItem(SESSION_LIBRARY_KEY, JSON.stringify(list));
+  }
+
+  async function refreshSessions() {
+    const data = await fetchJson<{ sessions: SessionSummary[] }>("/api/sessions");
+    setLibrary(data.sessions);
+  }
+
+  function reportError(e: unknown) {
+    setMessages((m) => [
+      ...m,
+      {
         id: cryptoRandomId(),
+        role: "assistant",
+        content: `Error: ${e instanceof Error ? e.message : "Unknown error"}`,
         timestamp: Date.now(),
-      }))
-    );
+      },
+    ]);
+  }
+
+  async function createSession() {
+    adopt(await fetchJson<SessionResponse>("/api/sessions", { method: "POST" }));
+  }
+
+  async function resume(id: string) {
+    try {
+      adopt(await fetchJson<SessionResponse>(`/api/sessions/${encodeURIComponent(id)}`));
+    } catch {
+      // Stale id (store wiped or session deleted): start fresh
+      await createSession();
+    }
+  }
+
+  async function renameSession(id: string, title: string) {
+    await fetchJson(`/api/sessions/${encodeURIComponent(id)}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ title }),
+    });
+    await refreshSessions();
+  }
+
+  async function setScoringProfile(profile: ScoringProfileName | null) {
+    const data = await fetchJson<{ session: AgentSession }>(`/api/sessions/${encodeURIComponent(session.id)}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      // Choosing a profile drops any hand-tuned weights from an earlier choice
+      body: JSON.stringify({ scoring: profile ? { profile } : null }),
+    });
+    setSession(data.session);
+  }
+
+  async function duplicateSession(id: string) {
+    adopt(await fetchJson<SessionResponse>(`/api/sessions/${encodeURIComponent(id)}/duplicate`, { method: "POST" }));
+    await refreshSessions();
+  }
+
+  async function deleteSession(id: string) {
+    await fetchJson(`/api/sessions/${encodeURIComponent(id)}`, { method: "DELETE" });
+    setLibrary(sessions.filter((x) => x.id !== id));
+    if (id === session.id) await reset();
+    else await refreshSessions();
+  }
+
+  // After hydration, resume the last server-side session (or start one)
+  useEffect(() => {
+    try {
+      const cached = window.localStorage.getItem(SESSION_LIBRARY_KEY);
+      if (cached) setSessions(JSON.parse(cached) as SessionSummary[]);
+    } catch {
+      // Corrupt cache: the server list below replaces it
+    }
+
+    const last = window.localStorage.getItem(LAST_SESSION_KEY);
+    (last ? resume(last) : createSession()).then(refreshSessions).catch(reportError);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
@@ -102,23 +160,16 @@ export default function Chat() {
     setLoading(true);
 
     try {
-      const res = await fetch("/api/chat", {
+      const data = await fetchJson<AgentApiResponse>("/api/chat", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          session,
+          sessionId: session.id,
           userMessage: text,
           userImages: images,
-        }),
+        } satisfies AgentApiRequest),
       });
 
-      if (!res.ok) {
-        const errText = await res.text();
-        throw new Error(errText || "API error");
-      }
-
-      const data = (await res.json()) as AgentApiResponse;
-
       setSession(data.session);
 
       setMessages((m) => [
@@ -133,52 +184,40 @@ export default function Chat() {
 
       // For v1-lite: clear images after sending (keeps interaction clean)
       setImages([]);
-    } catch (e: any) {
-      setMessages((m) => [
-        ...m,
-        {
-          id: cryptoRandomId(),
-          role: "assistant",
-          content: `Error: ${e?.message ?? "Unknown error"}`,
-          timestamp: Date.now(),
-        },
-      ]);
+      refreshSessions().catch(() => {});
+    } catch (e) {
+      reportError(e);
     } finally {
       setLoading(false);
     }
   }
 
-  function reset() {
-    setSession(newSession());
-    setMessages([
-      {
-        id: cryptoRandomId(),
-        role: "assistant",
-        content: "Reset session. Paste a test case to begin.",
-        timestamp: Date.now(),
-      },
-    ]);
+  async function reset() {
     setDraft("");
     setImages([]);
+    await createSession();
+    await refreshSessions();
   }
 
   return (
-    <div className="grid grid-cols-1 gap-6 lg:grid-cols-[1.35fr_0.65fr]">
+    <div className="grid grid-cols-1 gap-6 lg:grid-cols-[0.55fr_1.35fr_0.65fr]">
+      <SessionSidebar
+        sessions={sessions}
+        activeId={session.id}
+        onResume={(id) => resume(id).catch(reportError)}
+        onRename={(id, title) => renameSession(id, title).catch(reportError)}
+        onDuplicate={(id) => duplicateSession(id).catch(reportError)}
+        onDelete={(id) => deleteSession(id).catch(reportError)}
+        onNew={() => reset().catch(reportError)}
+      />
+
       <section className="rounded-2xl border border-neutral-800 bg-neutral-900">
         <div className="flex items-center justify-between border-b border-neutral-800 p-4">
           <div className="flex items-center gap-3">
             <div className="text-sm font-semibold">Chat</div>
             <StateBadge state={state} />
           </div>
-          <button
-            type="button"
-            onClick={reset}
-            className="rounded-lg border border-neutral-700 bg-neutral-950 px-3 py-2 text-xs hover:bg-neutral-800"
-          >
-            Reset
-          </button>
         </div>
-
         <div ref={scrollRef} className="max-h-[60vh] overflow-auto p-4">
           <div className="space-y-4">
             {transcript.map((m) => (
@@ -275,7 +314,12 @@ export default function Chat() {
         </div>
       </section>
 
-      <ArtifactsPanel session={session} tab={artifactsTab} setTab={setArtifactsTab} />
+      <ArtifactsPanel
+        session={session}
+        tab={artifactsTab}
+        setTab={setArtifactsTab}
+        onScoringProfile={(p) => setScoringProfile(p).catch(reportError)}
+      />
     </div>
   );
 }
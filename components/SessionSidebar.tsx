@@ -0,0 +1,98 @@
+"use client";
+
+import type { SessionSummary } from "@/lib/agent/schema";
+import StateBadge from "@/components/StateBadge";
+
+export function sessionLabel(x: SessionSummary) {
+  if (x.title) return x.title;
+  const v = x.vehicle ?? {};
+  return [v.make, v.model, v.gen].filter(Boolean).join(" ") || "New hunt";
+}
+
+export default function SessionSidebar({
+  sessions,
+  activeId,
+  onResume,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onNew,
+}: {
+  sessions: SessionSummary[];
+  activeId: string;
+  onResume: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onNew: () => void;
+}) {
+  function rename(x: SessionSummary) {
+    const title = window.prompt("Rename session", sessionLabel(x));
+    if (title != null) onRename(x.id, title);
+  }
+
+  function remove(x: SessionSummary) {
+    if (window.confirm(`Delete “${sessionLabel(x)}”? This cannot be undone.`)) onDelete(x.id);
+  }
+
+  return (
+    <aside className="min-w-0 rounded-2xl border border-neutral-800 bg-neutral-900 p-4">
+      <div className="flex items-center justify-between gap-3">
+        <div className="text-sm font-semibold">Sessions</div>
+        <button
+          type="button"
+          onClick={onNew}
+          className="rounded-lg border border-neutral-700 bg-neutral-950 px-3 py-2 text-xs hover:bg-neutral-800"
+        >
+          New
+        </button>
+      </div>
+
+      <ul className="mt-3 max-h-[70vh] space-y-2 overflow-auto">
+        {sessions.length === 0 ? <li className="text-xs text-neutral-500">No saved sessions yet.</li> : null}
+        {sessions.map((x) => {
+          const active = x.id === activeId;
+          const v = x.vehicle ?? {};
+          const vehicle = [v.make, v.model, v.gen].filter(Boolean).join(" ");
+
+          return (
+            <li
+              key={x.id}
+              className={[
+                "rounded-xl border p-3",
+                active ? "border-neutral-600 bg-neutral-950" : "border-neutral-800 bg-neutral-900",
+              ].join(" ")}
+            >
+              <button type="button" onClick={() => onResume(x.id)} className="block w-full text-left">
+                <div className="truncate text-sm text-neutral-100">{sessionLabel(x)}</div>
+                {x.title && vehicle ? <div className="truncate text-xs text-neutral-400">{vehicle}</div> : null}
+                <div className="mt-2 flex flex-wrap items-center gap-2">
+                  <StateBadge state={x.state} />
+                  {x.decisionAction ? (
+                    <span className="text-xs text-neutral-300">Decision: {x.decisionAction}</span>
+                  ) : null}
+                </div>
+                <div className="mt-1 text-xs text-neutral-500">
+                  {new Date(x.updatedAt).toLocaleString()}
+                  {x.forkedFrom ? " · fork" : ""}
+                </div>
+              </button>
+
+              <div className="mt-2 flex gap-3 text-xs text-neutral-400">
+                <button type="button" onClick={() => rename(x)} className="hover:text-neutral-100">
+                  Rename
+                </button>
+                <button type="button" onClick={() => onDuplicate(x.id)} className="hover:text-neutral-100">
+                  Duplicate
+                </button>
+                <button type="button" onClick={() => remove(x)} className="hover:text-red-300">
+                  Delete
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </aside>
+  );
+}
@@ -0,0 +1,67 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Constraint } from "./schema";
+import { coerceConstraints, constraintKey, describeConstraint, parseConstraintText } from "./constraints";
+
+const shape = (cs: Constraint[]) => cs.map(({ attribute, operator, value, qualifier }) => ({ attribute, operator, value, qualifier }));
+
+test("one phrase can yield several constraints", () => {
+  assert.deepEqual(shape(parseConstraintText("986.2 (2003–2004), manual", 1)), [
+    { attribute: "year", operator: "between", value: { min: 2003, max: 2004 }, qualifier: undefined },
+    { attribute: "generation", operator: "eq", value: "986.2", qualifier: undefined },
+    { attribute: "transmission", operator: "eq", value: "manual", qualifier: undefined },
+  ]);
+});
+
+test("money needs budget wording; mileage keeps its ideal/acceptable grade", () => {
+  assert.deepEqual(shape(parseConstraintText("max budget $30k", 1)), [
+    { attribute: "price", operator: "lte", value: 30000, qualifier: undefined },
+  ]);
+  assert.deepEqual(shape(parseConstraintText("under 50k ideal, under 80k acceptable", 2)), [
+    { attribute: "mileage", operator: "lte", value: 50000, qualifier: "ideal" },
+    { attribute: "mileage", operator: "lte", value: 80000, qualifier: "acceptable" },
+  ]);
+});
+
+test("color and trim come from explicit phrasing or intent hints, never a vocabulary", () => {
+  assert.deepEqual(shape(parseConstraintText("color: speed yellow", 1)), [
+    { attribute: "exterior_color", operator: "eq", value: "Speed Yellow", qualifier: undefined },
+  ]);
+  assert.deepEqual(shape(parseConstraintText("Speed Yellow S", 1, { color: "Speed Yellow", trim: "S" })), [
+    { attribute: "exterior_color", operator: "eq", value: "Speed Yellow", qualifier: undefined },
+    { attribute: "trim", operator: "eq", value: "S", qualifier: undefined },
+  ]);
+  // Short trims match case-sensitively so ordinary words don't trigger them
+  assert.equal(parseConstraintText("seats in good shape", 1, { trim: "S" })[0].attribute, "other");
+});
+
+test("unrecognized text is kept as 'other' with the original phrasing", () => {
+  const [c] = parseConstraintText("  Hardtop included ", 3);
+  assert.deepEqual(c, { attribute: "other", operator: "eq", value: "Hardtop included", tier: 3, text: "Hardtop included" });
+});
+
+test("coerceConstraints accepts structured items, strings, or a mix, and retags the tier", () => {
+  const out = coerceConstraints(
+    [{ attribute: "price", operator: "lte", value: 30000, tier: 3, text: "" }, "manual", 42, null],
+    1
+  );
+  assert.deepEqual(
+    out.map((c) => [c.attribute, c.tier, c.text]),
+    [
+      ["price", 1, "price ≤ $30,000"],
+      ["transmission", 1, "manual"],
+    ]
+  );
+  assert.deepEqual(coerceConstraints("manual", 1), []);
+});
+
+test("constraintKey ignores phrasing, case and list order", () => {
+  const a = parseConstraintText("color: Speed Yellow", 1)[0];
+  const b: Constraint = { ...a, value: "speed  yellow", text: "must be speed yellow" };
+  assert.equal(constraintKey(a), constraintKey(b));
+
+  const inA: Constraint = { attribute: "exterior_color", operator: "in", value: ["Black", "Speed Yellow"], tier: 1, text: "" };
+  const inB: Constraint = { ...inA, value: ["speed yellow", "black"] };
+  assert.equal(constraintKey(inA), constraintKey(inB));
+  assert.equal(describeConstraint(inA), "exterior color in Black / Speed Yellow");
+});
@@ -0,0 +1,180 @@
+import type { Constraint, ConstraintTier, Intent } from "./schema";
+
+type Tier = Constraint["tier"];
+type VehicleHints = Intent["vehicle"];
+
+/**
+ * Deterministic fallback: recover structured constraints from free text.
+ *
+ * The model is asked for structured constraints directly (see statePrompt);
+ * this only runs when it (or an older session) hands us plain strings.
+ * One phrase can yield several constraints ("986.2 (2003-2004)" -> generation + year),
+ * and anything unrecognized is kept as attribute "other" so nothing is lost.
+ *
+ * Color and trim are never matched against a built-in vocabulary: they are
+ * recognized from explicit "color:"/"trim:" phrasing or from what the user
+ * already told us in intent.vehicle.
+ */
+export function parseConstraintText(text: string, tier: Tier, hints: VehicleHints = {}): Constraint[] {
+  const raw = text.trim();
+  if (!raw) return [];
+
+  const t = raw.toLowerCase().replace(/[–—]/g, "-");
+  const out: Constraint[] = [];
+  const add = (c: Omit<Constraint, "tier" | "text">) => out.push({ ...c, tier, text: raw });
+
+  // Year range e.g. "(2003-2004)" or "2003 to 2004"
+  const yr = t.match(/\b((?:19|20)\d{2})\s*(?:-|to)\s*((?:19|20)\d{2})\b/);
+  if (yr) add({ attribute: "year", operator: "between", value: { min: +yr[1], max: +yr[2] } });
+
+  // Generation token e.g. 986.2, B8.5, E92
+  const gen = raw.match(/\b\d{3}\.\d\b|\b[A-Z]\d{2,3}\b|\bB\d(\.\d)?\b/);
+  if (gen) add({ attribute: "generation", operator: "eq", value: gen[0].toUpperCase() });
+
+  // Transmission
+  if (/\bmanual\b/.test(t)) add({ attribute: "transmission", operator: "eq", value: "manual" });
+  else if (/\b(automatic|pdk|dsg|tiptronic)\b/.test(t)) add({ attribute: "transmission", operator: "eq", value: "automatic" });
+
+  // Money vs mileage: "under 30k" is ambiguous on its own, so require context
+  const isMoney = /\$|\bbudget\b|\bprice\b|\bspend\b/.test(t);
+  const isMileage = /\bmi(les|leage)?\b|\bodometer\b|\bideal\b|\bacceptable\b/.test(t);
+  const amounts = [...t.matchAll(/(?:under|below|max(?:imum)?|up to|<=?|≤)\s*\$?\s*(\d{1,3}(?:,\d{3})+|\d{1,3}k|\d{4,6})\b\s*(?:mi(?:les)?\b)?\s*(ideal|acceptable|ok)?/g)];
+
+  if (isMoney) {
+    // "under $30k", or a bare amount next to budget wording ("max budget $30k")
+    const m = amounts[0]?.[1] ?? t.match(/\$\s*(\d{1,3}(?:,\d{3})+|\d{1,3}k|\d{4,6})\b|\b(\d{1,3}k)\b/)?.slice(1).find(Boolean);
+    if (m) add({ attribute: "price", operator: "lte", value: parseAmount(m) });
+  } else if (isMileage) {
+    for (const m of amounts) {
+      const qualifier = m[2] === "ideal" ? "ideal" : m[2] ? "acceptable" : undefined;
+      add({ attribute: "mileage", operator: "lte", value: parseAmount(m[1]), ...(qualifier ? { qualifier } : {}) });
+    }
+  }
+
+  // Title / history
+  if (/\bclean title\b/.test(t)) add({ attribute: "title", operator: "eq", value: "clean" });
+  if (/\bsalt[- ]?road\b|\bsalt\b|\bnorthern\b|\brust\b/.test(t)) {
+    add({ attribute: "history", operator: "excludes", value: "salt-road exposure" });
+  }
+
+  // Color: explicit phrasing, or the color already captured in intent
+  const colorExplicit = t.match(/\b(?:color|colour|paint)\s*[:=]\s*([a-z][a-z ]*[a-z])/);
+  if (colorExplicit) {
+    add({ attribute: "exterior_color", operator: "eq", value: titleCase(colorExplicit[1]) });
+  } else if (hints?.color && containsPhrase(raw, hints.color)) {
+    add({ attribute: "exterior_color", operator: "eq", value: hints.color });
+  }
+
+  // Trim: explicit phrasing, or the trim already captured in intent
+  const trimExplicit = raw.match(/\btrim\s*[:=]\s*([A-Za-z0-9-]+)/i);
+  if (trimExplicit) {
+    add({ attribute: "trim", operator: "eq", value: trimExplicit[1] });
+  } else if (hints?.trim && containsPhrase(raw, hints.trim)) {
+    add({ attribute: "trim", operator: "eq", value: hints.trim });
+  }
+
+  if (!out.length) add({ attribute: "other", operator: "eq", value: raw });
+  return out;
+}
+
+/**
+ * Accepts whatever a session or model produced for one tier (structured
+ * objects, legacy strings, or a mix) and returns structured constraints
+ * tagged with that tier.
+ */
+export function coerceConstraints(items: unknown, tier: Tier, hints: VehicleHints = {}): Constraint[] {
+  if (!Array.isArray(items)) return [];
+  return items.flatMap((x): Constraint[] => {
+    if (typeof x === "string") return parseConstraintText(x, tier, hints);
+    if (x && typeof x === "object" && "attribute" in x) {
+      const c = x as Constraint;
+      return [{ ...c, tier, text: c.text || describeConstraint(c) }];
+    }
+    return [];
+  });
+}
+
+export function allConstraints(tiers: ConstraintTier): Constraint[] {
+  return [...(tiers.tier1 ?? []), ...(tiers.tier2 ?? []), ...(tiers.tier3 ?? [])];
+}
+
+/**
+ * Identity of a constraint for dedupe and watch keys. Ignores phrasing.
+ */
+export function constraintKey(c: Constraint): string {
+  return JSON.stringify([c.attribute, c.operator, normalizeValue(c.value), c.qualifier ?? null]);
+}
+
+/**
+ * Unique original phrasings, in order (display only).
+ */
+export function constraintTexts(cs: Constraint[]): string[] {
+  const out: string[] = [];
+  const seen = new Set<string>();
+  for (const c of cs) {
+    const k = c.text.toLowerCase().replace(/\s+/g, " ").trim();
+    if (k && !seen.has(k)) {
+      seen.add(k);
+      out.push(c.text);
+    }
+  }
+  return out;
+}
+
+/**
+ * Canonical, phrasing-independent rendering, e.g. "exterior color = Speed Yellow".
+ */
+export function describeConstraint(c: Constraint): string {
+  const attr = c.attribute.replace(/_/g, " ");
+  const v = c.value;
+  const money = c.attribute === "price";
+  const fmt = (n: number) => (money ? `$${n.toLocaleString()}` : n.toLocaleString());
+  const q = c.qualifier ? ` (${c.qualifier})` : "";
+
+  if (c.attribute === "other") return String(v);
+
+  switch (c.operator) {
+    case "between": {
+      const r = v as { min?: number; max?: number };
+      return `${attr} ${r.min ?? "…"}–${r.max ?? "…"}`;
+    }
+    case "lte":
+      return `${attr} ≤ ${typeof v === "number" ? fmt(v) : String(v)}${q}`;
+    case "gte":
+      return `${attr} ≥ ${typeof v === "number" ? fmt(v) : String(v)}${q}`;
+    case "in":
+      return `${attr} in ${Array.isArray(v) ? v.join(" / ") : String(v)}`;
+    case "excludes":
+      return `${attr} excludes ${Array.isArray(v) ? v.join(" / ") : String(v)}`;
+    case "neq":
+      return `${attr} ≠ ${String(v)}`;
+    default:
+      return `${attr} = ${String(v)}${q}`;
+  }
+}
+
+// ------------------------- helpers -------------------------
+
+function normalizeValue(v: Constraint["value"]) {
+  if (typeof v === "string") return v.toLowerCase().replace(/\s+/g, " ").trim();
+  if (Array.isArray(v)) return v.map((x) => x.toLowerCase().trim()).sort();
+  return v;
+}
+
+function parseAmount(x: string): number {
+  const t = x.replace(/,/g, "");
+  return t.endsWith("k") ? parseFloat(t) * 1000 : parseFloat(t);
+}
+
+function titleCase(x: string) {
+  return x.replace(/\b[a-z]/g, (m) => m.toUpperCase());
+}
+
+function containsPhrase(text: string, phrase: string) {
+  const p = phrase.trim();
+  if (!p) return false;
+  const escaped = p.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  // Short tokens ("S", "GT") must match case-sensitively or they hit ordinary words
+  const flags = p.length <= 2 ? "" : "i";
+  return new RegExp(`(^|[^A-Za-z0-9])${escaped}($|[^A-Za-z0-9])`, flags).test(text);
+}
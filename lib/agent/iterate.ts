@@ -0,0 +1,312 @@
+import type {
+  AgentSession,
+  BoundaryDiff,
+  Candidate,
+  Constraint,
+  ConstraintEdit,
+  ConstraintTier,
+  IterationRecord,
+} from "./schema";
+import { allConstraints, constraintKey, describeConstraint } from "./constraints";
+
+export const MAX_EDITS = 5;
+const BUDGET_STEPS_PCT = [0.1];
+
+/**
+ * Concrete relaxations of the gates scoreAndTier enforces (trim, color,
+ * transmission, year, budget). Mileage and history only affect score, so
+ * relaxing them would not admit anything new.
+ *
+ * Gates apply from any tier, so every edit changes a value or drops the
+ * constraint; moving it between tiers would not widen the search.
+ */
+export function suggestEdits(
+  session: AgentSession,
+  opts: { budgetSteps?: number[]; limit?: number } = {}
+): ConstraintEdit[] {
+  const steps = opts.budgetSteps ?? BUDGET_STEPS_PCT;
+  const out: Omit<ConstraintEdit, "id">[] = [];
+  const cs = allConstraints(session.constraints);
+
+  for (const c of cs) {
+    const target = constraintKey(c);
+    const v = c.value;
+
+    switch (c.attribute) {
+      case "exterior_color": {
+        // "Speed Yellow" -> "Yellow" (whole-word match admits every yellow)
+        const words = typeof v === "string" ? v.trim().split(/\s+/) : [];
+        if (c.operator === "eq" && words.length > 1) {
+          const base = words[words.length - 1];
+          out.push({
+            kind: "replace",
+            attribute: c.attribute,
+            target,
+            label: `Relax color to any ${base}`,
+            replacement: { ...c, value: base, text: `any ${base}` },
+          });
+        }
+        out.push({ kind: "remove", attribute: c.attribute, target, label: `Drop the color requirement (${c.text})` });
+        break;
+      }
+      case "trim":
+        out.push({ kind: "remove", attribute: c.attribute, target, label: `Drop the trim requirement (${c.text})` });
+        break;
+      case "transmission":
+        out.push({ kind: "remove", attribute: c.attribute, target, label: "Allow either transmission" });
+        break;
+      case "year":
+        if (c.operator === "between" && typeof v === "object" && !Array.isArray(v) && v.min && v.max) {
+          const value = { min: v.min - 1, max: v.max + 1 };
+          out.push({
+            kind: "replace",
+            attribute: c.attribute,
+            target,
+            label: `Widen years to ${value.min}–${value.max}`,
+            replacement: { ...c, value, text: `${value.min}-${value.max}` },
+          });
+        }
+        break;
+      case "price":
+        if (c.operator === "lte" && typeof v === "number") {
+          for (const pct of steps) out.push(raiseBudget(v, pct, { ...c }, target));
+        }
+        break;
+    }
+  }
+
+  // Budget stated only in intent: propose it as a price constraint
+  const budgetMax = session.intent.budget?.max;
+  if (!cs.some((c) => c.attribute === "price") && typeof budgetMax === "number") {
+    const c: Constraint = { attribute: "price", operator: "lte", value: budgetMax, tier: 1, text: "" };
+    for (const pct of steps) out.push({ ...raiseBudget(budgetMax, pct, c), kind: "add", target: undefined });
+  }
+
+  return numberEdits(out.slice(0, opts.limit ?? MAX_EDITS));
+}
+
+export function numberEdits(edits: Omit<ConstraintEdit, "id">[]): ConstraintEdit[] {
+  return edits.map((e, i) => ({ ...e, id: String(i + 1) }));
+}
+
+/**
+ * The edits the user was last shown (decide() stores them on the decision),
+ * so the numbers they type in S6 mean what they saw.
+ */
+export function currentEdits(session: AgentSession): ConstraintEdit[] {
+  // Older sessions stored plain strings here
+  const stored = (session.decision?.suggestedEdits ?? []).filter((e) => e && typeof e === "object");
+  return stored.length ? stored : suggestEdits(session);
+}
+
+/**
+ * "1 3", "apply 1 and 3", "revise #2", "all" -> the matching suggested edits.
+ * Numbers are only read at the start of the message so "allow up to 90k miles"
+ * is left for the model to interpret.
+ */
+export function parseEditSelection(text: string, edits: ConstraintEdit[]): ConstraintEdit[] {
+  const t = text.trim().toLowerCase().replace(/^(revise|apply|accept|use)\b[:\s]*/, "");
+  if (/^all\b/.test(t)) return edits;
+
+  const m = t.match(/^#?\d+\b(?:\s*(?:,|and|&)?\s*#?\d+\b)*/);
+  if (!m) return [];
+
+  const ids = new Set(m[0].match(/\d+/g));
+  return edits.filter((e) => ids.has(e.id));
+}
+
+/**
+ * Apply edits in order. An edit whose target is already gone (changed earlier
+ * in the same turn) is skipped.
+ */
+export function applyEdits(
+  tiers: ConstraintTier,
+  edits: ConstraintEdit[]
+): { constraints: ConstraintTier; applied: ConstraintEdit[] } {
+  const cs = allConstraints(tiers);
+  const applied: ConstraintEdit[] = [];
+
+  for (const e of edits) {
+    if (e.kind === "add") {
+      if (e.replacement) {
+        cs.push(e.replacement);
+        applied.push(e);
+      }
+      continue;
+    }
+
+    const i = cs.findIndex((c) => constraintKey(c) === e.target);
+    if (i === -1) continue;
+
+    if (e.kind === "remove") cs.splice(i, 1);
+    else if (e.replacement) cs[i] = { ...e.replacement, tier: cs[i].tier };
+    applied.push(e);
+  }
+
+  return { constraints: byTier(cs), applied };
+}
+
+export function diffBoundary(before: ConstraintTier, after: ConstraintTier): BoundaryDiff {
+  const prev = new Map(allConstraints(before).map((c) => [constraintKey(c), c]));
+  const next = new Map(allConstraints(after).map((c) => [constraintKey(c), c]));
+
+  const diff: BoundaryDiff = { removed: [], added: [], moved: [] };
+  for (const [k, c] of prev) {
+    const n = next.get(k);
+    if (!n) diff.removed.push(c);
+    else if (n.tier !== c.tier) diff.moved.push({ constraint: n, from: c.tier, to: n.tier });
+  }
+  for (const [k, c] of next) {
+    if (!prev.has(k)) diff.added.push(c);
+  }
+  return diff;
+}
+
+export function isEmptyDiff(diff: BoundaryDiff) {
+  return !diff.removed.length && !diff.added.length && !diff.moved.length;
+}
+
+/**
+ * Human-readable diff; a removal and an addition on the same attribute are
+ * shown as one change.
+ */
+export function renderBoundaryDiff(diff: BoundaryDiff): string[] {
+  const added = [...diff.added];
+  const lines: string[] = [];
+
+  for (const r of diff.removed) {
+    const i = added.findIndex((a) => a.attribute === r.attribute && r.attribute !== "other");
+    if (i === -1) {
+      lines.push(`- Removed: ${describeConstraint(r)}`);
+    } else {
+      lines.push(`- Changed: ${describeConstraint(r)} → ${describeConstraint(added[i])}`);
+      added.splice(i, 1);
+    }
+  }
+  for (const a of added) lines.push(`- Added (Tier ${a.tier}): ${describeConstraint(a)}`);
+  for (const m of diff.moved) {
+    lines.push(`- Moved: ${describeConstraint(m.constraint)} (Tier ${m.from} → Tier ${m.to})`);
+  }
+  return lines;
+}
+
+/**
+ * The session as it would be with `edits` applied (constraints and the intent
+ * fields that mirror them). Used for counterfactual scoring as well as S6.
+ */
+export function applyEditsToSession(session: AgentSession, edits: ConstraintEdit[]): AgentSession {
+  const { constraints } = applyEdits(session.constraints, edits);
+  return syncIntent({ ...session, constraints }, diffBoundary(session.constraints, constraints));
+}
+
+/**
+ * S6 step. `working` already carries any change the model extracted from the
+ * user's own wording; the picked suggestions are applied on top. The previous
+ * run's candidates are kept on the record so the next Explore can be compared.
+ *
+ * Returns undefined when the boundary did not change.
+ */
+export function applyIteration(
+  before: AgentSession,
+  working: AgentSession,
+  picked: ConstraintEdit[],
+  at = Date.now()
+): { session: AgentSession; record: IterationRecord } | undefined {
+  const { constraints, applied } = applyEdits(working.constraints, picked);
+  const diff = diffBoundary(before.constraints, constraints);
+  if (isEmptyDiff(diff)) return undefined;
+
+  const record: IterationRecord = {
+    at,
+    applied: applied.map((e) => e.label),
+    before: before.constraints,
+    after: constraints,
+    diff,
+    prior: {
+      finalists: before.finalists,
+      discovery: before.discovery,
+      decision: before.decision,
+      explore_stats: before.explore_stats,
+    },
+  };
+
+  const session = syncIntent({ ...working, constraints, iterations: [...(working.iterations ?? []), record] }, diff);
+  return { session, record };
+}
+
+/**
+ * Finalist/discovery changes between the run an iteration replaced and the new one.
+ */
+export function compareRuns(prior: IterationRecord["prior"], next: AgentSession): string[] {
+  const ids = (xs: Candidate[]) => new Set(xs.map((c) => c.id));
+  const before = ids(prior.finalists);
+  const after = ids(next.finalists);
+
+  const gained = next.finalists.filter((c) => !before.has(c.id));
+  const lost = prior.finalists.filter((c) => !after.has(c.id));
+
+  const lines = [
+    `- Finalists: ${prior.finalists.length} → ${next.finalists.length}`,
+    `- Discovery: ${prior.discovery.length} → ${next.discovery.length}`,
+  ];
+  if (gained.length) lines.push(`- New finalists: ${gained.map((c) => c.title).join("; ")}`);
+  if (lost.length) lines.push(`- No longer finalists: ${lost.map((c) => c.title).join("; ")}`);
+  if (prior.decision && next.decision && prior.decision.action !== next.decision.action) {
+    lines.push(`- Decision: ${prior.decision.action} → ${next.decision.action}`);
+  }
+  return lines;
+}
+
+// ------------------------- helpers -------------------------
+
+function byTier(cs: Constraint[]): ConstraintTier {
+  return {
+    tier1: cs.filter((c) => c.tier === 1),
+    tier2: cs.filter((c) => c.tier === 2),
+    tier3: cs.filter((c) => c.tier === 3),
+  };
+}
+
+function raiseBudget(max: number, pct: number, c: Constraint, target?: string): Omit<ConstraintEdit, "id"> {
+  const value = Math.ceil((max * (1 + pct)) / 500) * 500;
+  return {
+    kind: "replace",
+    attribute: "price",
+    target,
+    label: `Raise budget to $${value.toLocaleString()} (+${Math.round(pct * 100)}%)`,
+    replacement: { ...c, value, text: `budget under $${value.toLocaleString()}` },
+  };
+}
+
+/**
+ * intent mirrors a few constraints, and deriveExploreSeed reads intent first
+ * (trim) or as the authority (budget), so a boundary edit must reach it too.
+ */
+function syncIntent(session: AgentSession, diff: BoundaryDiff): AgentSession {
+  const touched = new Set([...diff.removed, ...diff.added].map((c) => c.attribute));
+  if (!touched.size) return session;
+
+  const cs = allConstraints(session.constraints);
+  const str = (attr: Constraint["attribute"]) => {
+    const v = cs.find((c) => c.attribute === attr)?.value;
+    return typeof v === "string" ? v : undefined;
+  };
+
+  const vehicle = { ...session.intent.vehicle };
+  const budget = { ...session.intent.budget };
+
+  if (touched.has("trim")) vehicle.trim = str("trim");
+  if (touched.has("exterior_color")) vehicle.color = str("exterior_color");
+  if (touched.has("transmission")) vehicle.transmission = str("transmission");
+  if (touched.has("year")) {
+    const v = cs.find((c) => c.attribute === "year" && c.operator === "between")?.value;
+    const r = typeof v === "object" && !Array.isArray(v) ? v : undefined;
+    vehicle.year_range = r?.min && r?.max ? `${r.min}-${r.max}` : undefined;
+  }
+  if (touched.has("price")) {
+    const v = cs.find((c) => c.attribute === "price" && c.operator === "lte")?.value;
+    budget.max = typeof v === "number" ? v : undefined;
+  }
+
+  return { ...session, intent: { ...session.intent, vehicle, budget } };
+}
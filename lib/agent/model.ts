@@ -1,9 +1,60 @@
-import OpenAI from "openai";
+import type { AgentSession } from "./schema";
+import { getModelProvider, registerModelProvider, type ModelCall, type ModelProvider } from "./modelProvider";
+import { openAICompatibleModelProvider, openAIModelProvider } from "./openaiModel";
+import { offlineModelProvider } from "./offlineModel";
 
-if (!process.env.OPENAI_API_KEY) {
-  throw new Error("OPENAI_API_KEY is not set");
+// Built-in backends. Others register here.
+registerModelProvider(openAIModelProvider);
+registerModelProvider(openAICompatibleModelProvider);
+registerModelProvider(offlineModelProvider);
+
+/**
+ * MODEL_PROVIDER is a provider id ("openai", "openai-compatible", "offline").
+ * Unset: OpenAI when OPENAI_API_KEY is present, else the offline extractor,
+ * so the app runs (and S1/S2 extraction works) without a key.
+ */
+export function resolveModelProvider(id = process.env.MODEL_PROVIDER): ModelProvider {
+  const wanted = id?.trim() || (process.env.OPENAI_API_KEY ? "openai" : "offline");
+  const provider = getModelProvider(wanted);
+  if (!provider) {
+    throw new Error(`Unknown model provider: ${wanted}`);
+  }
+  return provider;
+}
+
+/**
+ * Model name for one state: MODEL_<STATE> (e.g. MODEL_S1_CAPTURE), else
+ * MODEL_NAME, else the provider's default.
+ */
+export function modelForState(state: AgentSession["state"], provider: ModelProvider): string {
+  return process.env[`MODEL_${state}`]?.trim() || process.env.MODEL_NAME?.trim() || provider.defaultModel || "";
 }
 
-export const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+/** MODEL_STRUCTURED_OUTPUT=off skips native JSON-schema mode on every backend. */
+export function structuredOutputEnabled(provider: ModelProvider): boolean {
+  return !!provider.structuredOutput && process.env.MODEL_STRUCTURED_OUTPUT?.trim().toLowerCase() !== "off";
+}
+
+/**
+ * One model call for the session's current state. Returns the raw text plus
+ * which backend and model produced it, and whether jsonSchema was applied.
+ */
+export async function completeModel(
+  session: AgentSession,
+  prompt: string,
+  userMessage: string,
+  jsonSchema?: ModelCall["jsonSchema"]
+): Promise<{ text: string; provider: string; model: string; structured: boolean }> {
+  const provider = resolveModelProvider();
+  const model = modelForState(session.state, provider);
+  const structured = !!jsonSchema && structuredOutputEnabled(provider);
+  const text = await provider.complete({
+    state: session.state,
+    model,
+    prompt,
+    session,
+    userMessage,
+    ...(structured ? { jsonSchema } : {}),
+  });
+  return { text, provider: provider.id, model, structured };
+}
@@ -0,0 +1,41 @@
+import type { AgentSession, AgentState } from "./schema";
+
+/**
+ * Model provider contract (v1):
+ * - complete() returns the raw model text; the route extracts and validates
+ *   the JSON object (ModelResponseSchema), whatever the backend.
+ * - Adapters own their config and throw on transport or config errors;
+ *   the route falls back to the deterministic stub.
+ * - structuredOutput: the backend can constrain output to call.jsonSchema
+ *   natively. Output is validated (and repaired) either way.
+ */
+export type ModelCall = {
+  state: AgentState;
+  model: string;       // resolved per state (see modelForState)
+  prompt: string;      // buildPrompt output
+  session: AgentSession;
+  userMessage: string;
+  jsonSchema?: { name: string; schema: Record<string, unknown> }; // set only for structuredOutput providers
+};
+
+export type ModelProvider = {
+  id: string;            // stable key, e.g. "openai"
+  label: string;         // user-facing name
+  defaultModel?: string; // used when no MODEL_NAME / per-state override is set
+  structuredOutput?: boolean;
+  complete(call: ModelCall): Promise<string>;
+};
+
+const registry = new Map<string, ModelProvider>();
+
+export function registerModelProvider(provider: ModelProvider): void {
+  registry.set(provider.id, provider);
+}
+
+export function getModelProvider(id: string): ModelProvider | undefined {
+  return registry.get(id);
+}
+
+export function listModelProviders(): ModelProvider[] {
+  return Array.from(registry.values());
+}
@@ -51,6 +51,84 @@ const normalizeVehiclePatch = (val: unknown) => {
   return v;
 };
 
+const ATTRIBUTE_ALIASES: Record<string, string> = {
+  color: "exterior_color",
+  "exterior color": "exterior_color",
+  exteriorcolor: "exterior_color",
+  paint: "exterior_color",
+  gen: "generation",
+  miles: "mileage",
+  odometer: "mileage",
+  budget: "price",
+  years: "year",
+  year_range: "year",
+};
+
+const OPERATOR_ALIASES: Record<string, string> = {
+  "=": "eq",
+  "==": "eq",
+  equals: "eq",
+  is: "eq",
+  "!=": "neq",
+  not: "neq",
+  "<=": "lte",
+  "<": "lte",
+  max: "lte",
+  under: "lte",
+  ">=": "gte",
+  ">": "gte",
+  min: "gte",
+  range: "between",
+  one_of: "in",
+  exclude: "excludes",
+  none_of: "excludes",
+};
+
+const CONSTRAINT_ATTRIBUTES = [
+  "make",
+  "model",
+  "generation",
+  "trim",
+  "year",
+  "transmission",
+  "exterior_color",
+  "mileage",
+  "price",
+  "title",
+  "history",
+  "other",
+] as const;
+
+const normalizeAttribute = (val: unknown) => {
+  const s = String(val ?? "").toLowerCase().trim();
+  const a = ATTRIBUTE_ALIASES[s] ?? s;
+  return (CONSTRAINT_ATTRIBUTES as readonly string[]).includes(a) ? a : "other";
+};
+
+const normalizeOperator = (val: unknown) => {
+  const s = String(val ?? "").toLowerCase().trim();
+  return OPERATOR_ALIASES[s] ?? s;
+};
+
+export const ConstraintSchema = z.object({
+  attribute: z.preprocess(normalizeAttribute, z.enum(CONSTRAINT_ATTRIBUTES)),
+  operator: z.preprocess(normalizeOperator, z.enum(["eq", "neq", "in", "excludes", "lte", "gte", "between"])),
+  value: z.union([
+    z.string(),
+    z.number(),
+    z.tuple([z.number(), z.number()]).transform(([min, max]) => ({ min, max })),
+    z.array(z.string()),
+    z.object({ min: z.number().optional(), max: z.number().optional() }),
+  ]),
+  // Original phrasing (display only); tier is implied by the list it arrives in.
+  text: z.string().optional(),
+  qualifier: z.enum(["ideal", "acceptable"]).optional(),
+});
+
+// Structured constraints are preferred; plain strings are still accepted and
+// parsed server-side (lib/agent/constraints.ts) with session context.
+const ConstraintListSchema = z.array(z.union([ConstraintSchema, z.string()]));
+
 export const PatchSchema = z
   .object({
     intent: z
@@ -82,14 +160,28 @@ export const PatchSchema = z
             notes: z.string().optional(),
           })
           .optional(),
+        usage: z
+          .object({
+            street_bias: z.enum(["low", "medium", "high"]).optional(),
+            track_bias: z.enum(["low", "medium", "high"]).optional(),
+            show_bias: z.enum(["low", "medium", "high"]).optional(),
+          })
+          .optional(),
+        horizon: z.enum(["short_term", "long_term"]).optional(),
+        location: z
+          .object({
+            zip: z.union([z.string(), z.number().transform((n) => String(n).padStart(5, "0"))]).optional(),
+            state: z.string().optional(),
+          })
+          .optional(),
       })
       .optional(),
 
     constraints: z
       .object({
-        tier1: z.array(z.string()).optional(),
-        tier2: z.array(z.string()).optional(),
-        tier3: z.array(z.string()).optional(),
+        tier1: ConstraintListSchema.optional(),
+        tier2: ConstraintListSchema.optional(),
+        tier3: ConstraintListSchema.optional(),
       })
       .optional(),
 
@@ -103,13 +195,39 @@ export const PatchSchema = z
 
 export const BoundarySchema = z
   .object({
-    tier1: z.array(z.string()).default([]),
-    tier2: z.array(z.string()).default([]),
+    tier1: ConstraintListSchema.default([]),
+    tier2: ConstraintListSchema.default([]),
     hard_rejections: z.array(z.string()).default([]),
     acceptable_compromises: z.preprocess(toStringArray, z.array(z.string())).default([]),
   })
   .passthrough();
 
+/**
+ * Per-watch notification channels (see lib/notify/channels.ts). SMTP server
+ * settings stay in env; only recipients live on the watch.
+ */
+export const NotifyChannelSchema = z.discriminatedUnion("type", [
+  z
+    .object({
+      type: z.literal("webhook"),
+      url: z.url({ protocol: /^https?$/ }),
+      headers: z.record(z.string(), z.string()).optional(),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal("email"),
+      to: z.preprocess((v) => (typeof v === "string" ? [v] : v), z.array(z.email()).min(1)),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal("file"),
+      dir: z.string().min(1).optional(), // outbox directory; default NOTIFY_OUTBOX_DIR
+    })
+    .strict(),
+]);
+
 export const WatchSchema = z
   .object({
     must_have: z.preprocess(toStringArray, z.array(z.string())).default([]),
@@ -131,9 +249,74 @@ export const WatchSchema = z
       .optional(),
     cadence: z.preprocess(normalizeCadence, z.enum(["daily", "twice_weekly", "weekly"]).optional()),
     search_strings: z.record(z.string(), z.array(z.string())).optional(),
+    notify: z.array(NotifyChannelSchema).optional(),
   })
   .passthrough();
 
+/**
+ * Watch management (REST): editable subset of WatchSchema plus run status.
+ * Strict so typos fail loudly instead of being silently ignored.
+ */
+export const WatchUpdateSchema = WatchSchema.pick({ cadence: true, budget: true, geography: true, notify: true })
+  .partial()
+  .extend({ status: z.enum(["active", "paused"]).optional() })
+  .strict();
+
+export type WatchUpdate = z.infer<typeof WatchUpdateSchema>;
+
+const SCORING_PROFILE_NAMES = ["balanced", "collector", "daily_driver", "track_build"] as const;
+
+const ScoringWeightsSchema = z
+  .object({
+    base: z.number(),
+    manual: z.number(),
+    trimConfirmed: z.number(),
+    colorConfirmed: z.number(),
+    withinBudget: z.number(),
+    overBudget: z.number(),
+    mileageIdeal: z.number(),
+    mileageOk: z.number(),
+    mileageOver: z.number(),
+    dealPer10Pct: z.number(),
+    dealMax: z.number().min(0),
+    vinYearMismatch: z.number(),
+    deprioritizedRegion: z.number(),
+    saltBelt: z.number(),
+    acceptThreshold: z.number().min(0).max(100),
+  })
+  .partial()
+  .strict();
+
+/**
+ * Session edits (REST). `scoring` replaces the session's profile choice and
+ * weight overrides; null clears them (back to intent-based selection).
+ */
+export const SessionUpdateSchema = z
+  .object({
+    title: z.string().max(120).optional(),
+    scoring: z
+      .object({
+        profile: z.enum(SCORING_PROFILE_NAMES).optional(),
+        weights: ScoringWeightsSchema.optional(),
+      })
+      .strict()
+      .nullable()
+      .optional(),
+  })
+  .strict()
+  .refine((x) => x.title !== undefined || x.scoring !== undefined, { message: "Nothing to update" });
+
+/**
+ * Chat turn request body (see AgentApiRequest). Images are data URLs.
+ */
+export const AgentApiRequestSchema = z
+  .object({
+    sessionId: z.string().min(1),
+    userMessage: z.string(),
+    userImages: z.array(z.string()).optional(),
+  })
+  .strict();
+
 export const ModelResponseSchema = z
   .object({
     // Always optional; model returns only what is relevant for the current state.
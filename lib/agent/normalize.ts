@@ -1,4 +1,5 @@
-import type { AgentSession } from "./schema";
+import type { AgentSession, Constraint } from "./schema";
+import { coerceConstraints, constraintKey, constraintTexts, parseConstraintText } from "./constraints";
 
 /**
  * Normalizes extracted state into a canonical, retrieval-friendly form.
@@ -10,62 +11,50 @@ import type { AgentSession } from "./schema";
 export function normalizeSession(session: AgentSession): AgentSession {
   const s = structuredClone(session) as AgentSession;
 
-  // ---- 1) Extract gen/year_range from Tier 1 text if missing ----
-  const allText = [
-    ...(s.constraints.tier1 ?? []),
-    ...(s.constraints.tier2 ?? []),
-    ...(s.constraints.tier3 ?? []),
-  ].join(" | ");
-
   s.intent.vehicle = s.intent.vehicle ?? {};
 
+  // ---- 0) Structured constraints: parse legacy/model strings, re-parse "other" ----
+  // Runs after the patch merge so intent.vehicle (color/trim) can guide parsing.
+  const hints = s.intent.vehicle;
+  const reparse = (c: Constraint) =>
+    c.attribute === "other" ? parseConstraintText(c.text, c.tier, hints) : [c];
+
+  const incoming = [
+    ...coerceConstraints(s.constraints?.tier1, 1, hints),
+    ...coerceConstraints(s.constraints?.tier2, 2, hints),
+    ...coerceConstraints(s.constraints?.tier3, 3, hints),
+  ].flatMap(reparse);
+
+  // ---- 1) Extract gen/year_range from constraints if missing ----
   if (!s.intent.vehicle.gen) {
-    const gen = extractGenerationToken(allText);
+    const g = incoming.find((c) => c.attribute === "generation");
+    const gen = typeof g?.value === "string" ? g.value : extractGenerationToken(incoming.map((c) => c.text).join(" | "));
     if (gen) s.intent.vehicle.gen = gen;
   }
 
   if (!s.intent.vehicle.year_range) {
-    const yr = extractYearRange(allText);
+    const y = incoming.find((c) => c.attribute === "year" && c.operator === "between");
+    const r = y?.value as { min?: number; max?: number } | undefined;
+    const yr = r?.min && r?.max ? `${r.min}-${r.max}` : extractYearRange(incoming.map((c) => c.text).join(" | "));
     if (yr) s.intent.vehicle.year_range = yr;
   }
 
-  // ---- 2) Tier normalization (heuristic) ----
-  const tier1: string[] = [];
-  const tier2: string[] = [];
-  const tier3: string[] = [];
-
-  const pushUnique = (arr: string[], item: string) => {
-    const norm = normalizeLine(item);
-    if (!norm) return;
-    if (!arr.some((x) => normalizeLine(x) === norm)) arr.push(item.trim());
-  };
+  // ---- 2) Tier normalization (heuristic, on original phrasing) ----
+  const tiers: Record<Constraint["tier"], Constraint[]> = { 1: [], 2: [], 3: [] };
+  const seen = new Set<string>();
 
   // Process Tier1 first; demote "avoid/prefer/ideal/acceptable" phrasing unless explicit non-negotiable.
-  for (const c of s.constraints.tier1 ?? []) {
-    const bucket = classifyConstraintTier(c, "tier1");
-    if (bucket === "tier1") pushUnique(tier1, c);
-    else if (bucket === "tier2") pushUnique(tier2, c);
-    else pushUnique(tier3, c);
-  }
-
   // Keep existing Tier2/Tier3 but allow promotion if explicitly non-negotiable.
-  for (const c of s.constraints.tier2 ?? []) {
-    const bucket = classifyConstraintTier(c, "tier2");
-    if (bucket === "tier1") pushUnique(tier1, c);
-    else if (bucket === "tier2") pushUnique(tier2, c);
-    else pushUnique(tier3, c);
-  }
+  for (const c of incoming) {
+    const key = constraintKey(c);
+    if (seen.has(key)) continue;
+    seen.add(key);
 
-  for (const c of s.constraints.tier3 ?? []) {
-    const bucket = classifyConstraintTier(c, "tier3");
-    if (bucket === "tier1") pushUnique(tier1, c);
-    else if (bucket === "tier2") pushUnique(tier2, c);
-    else pushUnique(tier3, c);
+    const tier = classifyConstraintTier(c.text, c.tier);
+    tiers[tier].push({ ...c, tier });
   }
 
-  s.constraints.tier1 = tier1;
-  s.constraints.tier2 = tier2;
-  s.constraints.tier3 = tier3;
+  s.constraints = { tier1: tiers[1], tier2: tiers[2], tier3: tiers[3] };
 
   return s;
 }
@@ -75,8 +64,8 @@ export function normalizeSession(session: AgentSession): AgentSession {
  * Model boundary can still add compromises, but Tier1/Tier2 truth lives here.
  */
 export function computeCanonicalBoundary(session: AgentSession): {
-  tier1: string[];
-  tier2: string[];
+  tier1: Constraint[];
+  tier2: Constraint[];
   hard_rejections: string[];
 } {
   const tier1 = session.constraints.tier1 ?? [];
@@ -84,7 +73,7 @@ export function computeCanonicalBoundary(session: AgentSession): {
 
   // Hard rejections: explicit rejection rules + auto-derived "no <tier1-violations>"
   const explicit = session.taste?.rejection_rules ?? [];
-  const derived = tier1.map((x) => `No listings that violate: ${x}`);
+  const derived = constraintTexts(tier1).map((x) => `No listings that violate: ${x}`);
 
   const hard_rejections = dedupeStrings([...explicit, ...derived]);
   return { tier1, tier2, hard_rejections };
@@ -114,7 +103,7 @@ function dedupeStrings(items: string[]): string[] {
   return out;
 }
 
-function classifyConstraintTier(text: string, prior: "tier1" | "tier2" | "tier3"): "tier1" | "tier2" | "tier3" {
+function classifyConstraintTier(text: string, prior: Constraint["tier"]): Constraint["tier"] {
   const t = normalizeLine(text);
 
   // Strong Tier1 indicators
@@ -126,11 +115,11 @@ function classifyConstraintTier(text: string, prior: "tier1" | "tier2" | "tier3"
   // Preference language (demote from Tier1 unless explicitly hard)
   const isPreference = /\b(avoid|prefer|preferred|ideal|ideally|acceptable|ok)\b/.test(t);
 
-  if (isHard) return "tier1";
-  if (isNice) return "tier3";
+  if (isHard) return 1;
+  if (isNice) return 3;
 
   // If it reads like preference, never Tier1
-  if (isPreference) return prior === "tier3" ? "tier3" : "tier2";
+  if (isPreference) return prior === 3 ? 3 : 2;
 
   // Default: keep prior
   return prior;
@@ -0,0 +1,76 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { AgentSession, AgentState, Constraint } from "./schema";
+import { defaultSession } from "./session";
+import { offlineModelProvider } from "./offlineModel";
+
+async function reply(state: AgentState, userMessage: string, session: AgentSession = defaultSession("t")) {
+  const raw = await offlineModelProvider.complete({ state, model: "rules-v1", prompt: "", session, userMessage });
+  return JSON.parse(raw);
+}
+
+const attrs = (cs: Constraint[]) => cs.map((c) => `${c.attribute}:${JSON.stringify(c.value)}`);
+
+test("extracts vehicle, tiers, budget and location from a first message", async () => {
+  const { patch } = await reply(
+    "S1_CAPTURE",
+    "looking for a Porsche Boxster S, 2003-2004, manual, Speed Yellow only, max budget $30k, prefer under 60k miles. Long-term keeper, zip 94110"
+  );
+
+  assert.deepEqual(patch.intent.vehicle, {
+    make: "Porsche",
+    model: "Boxster",
+    trim: "S",
+    color: "Speed Yellow",
+    year_range: "2003-2004",
+    transmission: "manual",
+  });
+  assert.deepEqual(patch.intent.budget, { max: 30000 });
+  assert.equal(patch.intent.horizon, "long_term");
+  assert.deepEqual(patch.intent.location, { zip: "94110" });
+
+  assert.deepEqual(attrs(patch.constraints.tier1), [
+    'trim:"S"',
+    'year:{"min":2003,"max":2004}',
+    'transmission:"manual"',
+    'exterior_color:"Speed Yellow"',
+    "price:30000",
+  ]);
+  assert.deepEqual(attrs(patch.constraints.tier2), ["mileage:60000"]);
+});
+
+test("a newer single-valued constraint replaces the older one", async () => {
+  const s = defaultSession("t");
+  s.constraints = (await reply("S1_CAPTURE", "2003-2004, manual, max budget $30k")).patch.constraints;
+
+  const { patch } = await reply("S1_CAPTURE", "max budget $35k", s);
+  assert.deepEqual(attrs(patch.constraints.tier1), ['year:{"min":2003,"max":2004}', 'transmission:"manual"', "price:35000"]);
+});
+
+test("nothing recognizable yields no patch, so S1 asks its questions", async () => {
+  assert.deepEqual(await reply("S1_CAPTURE", "hello there"), {});
+  assert.deepEqual(await reply("S3_EXPLORE", "2003-2004"), {});
+});
+
+test("S5 returns a watch spec with the requested cadence, if any", async () => {
+  const s = defaultSession("t");
+  s.constraints = (await reply("S1_CAPTURE", "2003-2004, manual")).patch.constraints;
+
+  const { watch } = await reply("S5_WATCH", "check twice a week", s);
+  assert.equal(watch.cadence, "twice_weekly");
+  assert.equal((await reply("S5_WATCH", "weekly is fine", s)).watch.cadence, "weekly");
+  // Unstated: left to the stored watch (or the default)
+  assert.equal((await reply("S5_WATCH", "ok", s)).watch.cadence, undefined);
+  assert.ok(watch.must_have.length > 0);
+});
+
+test('"<X> only" is a color only when it names one; sentence-case "Looking for" still reads', async () => {
+  const { patch } = await reply("S1_CAPTURE", "Looking for a Porsche Boxster S. Manual only, Clean title only, Arctic Silver only");
+
+  assert.equal(patch.intent.vehicle.make, "Porsche");
+  assert.equal(patch.intent.vehicle.color, "Arctic Silver");
+  assert.deepEqual(
+    attrs(patch.constraints.tier1).filter((a) => a.startsWith("exterior_color")),
+    ['exterior_color:"Arctic Silver"']
+  );
+});
@@ -0,0 +1,218 @@
+import type { ModelProvider } from "./modelProvider";
+import type { AgentSession, Constraint, ConstraintTier, Intent, NotifyChannelConfig } from "./schema";
+import { allConstraints, constraintKey, constraintTexts, parseConstraintText } from "./constraints";
+import { computeCanonicalBoundary } from "./normalize";
+
+/**
+ * Rule-based stand-in for the model: deterministic, no network, no key.
+ *
+ * Extracts only what plain patterns can support: explicit "make:"/"trim:"
+ * phrasing, "looking for a <Make> <Model> <TRIM>", "<Color> only" (when it
+ * names a color), whatever parseConstraintText recognizes per clause (years,
+ * generation, transmission, budget, mileage, title, salt) and, in S5, email
+ * addresses and webhook URLs to notify. Anything it cannot place is left to
+ * the S1 follow-up questions. Returns the same JSON shape the prompt
+ * asks a real model for, so the route cannot tell the difference.
+ */
+
+type Vehicle = NonNullable<Intent["vehicle"]>;
+
+// Attributes where a newer statement replaces the older one
+const SINGLE_VALUED = new Set<Constraint["attribute"]>(["trim", "exterior_color", "transmission", "year", "generation", "price"]);
+
+// "<Phrase> only" is a color only if it names one ("Speed Yellow", "Arctic Silver")
+const COLOR_WORDS = new Set([
+  "black", "white", "silver", "grey", "gray", "red", "blue", "green", "yellow", "orange",
+  "brown", "beige", "gold", "purple", "violet", "maroon", "burgundy", "bronze", "tan", "teal",
+]);
+
+function namesColor(phrase: string): boolean {
+  return phrase.toLowerCase().split(/\s+/).some((w) => COLOR_WORDS.has(w));
+}
+
+// Words that already mean something else: "Manual only", "Clean title only", "S only"
+function isOtherConstraint(phrase: string, v: Vehicle): boolean {
+  if (v.trim && phrase.toLowerCase() === v.trim.toLowerCase()) return true;
+  return parseConstraintText(phrase, 1).some((c) => ["transmission", "trim", "title"].includes(c.attribute));
+}
+
+function clauses(text: string): string[] {
+  return text
+    .split(/[,;\n]+|\.(?:\s+|$)/)
+    .map((x) => x.trim())
+    .filter(Boolean);
+}
+
+function tierOf(clause: string): Constraint["tier"] {
+  const t = clause.toLowerCase();
+  if (/\bnice\b/.test(t)) return 3;
+  if (/\b(prefer|preferred|ideal|ideally|acceptable|ok|avoid)\b/.test(t)) return 2;
+  return 1;
+}
+
+function extractVehicle(text: string): Vehicle {
+  const v: Vehicle = {};
+
+  const explicit = /\b(make|model|trim|colou?r|gen(?:eration)?)\s*[:=]\s*([A-Za-z0-9][A-Za-z0-9 .-]*?)\s*(?=[,;\n]|$)/gi;
+  for (const m of text.matchAll(explicit)) {
+    const key = m[1].toLowerCase();
+    if (key === "make") v.make = m[2];
+    else if (key === "model") v.model = m[2];
+    else if (key === "trim") v.trim = m[2];
+    else if (key.startsWith("col")) v.color = m[2];
+    else v.gen = m[2];
+  }
+
+  // "looking for a 2004 Porsche Boxster S": capitalized make + model, short all-caps trim
+  const ask = text.match(
+    /\b(?:[Ll]ooking for|[Ss]earching for|[Hh]unting for|[Ww]ant|[Ff]ind me|[Bb]uy(?:ing)?)\s+(?:an?\s+)?(?:(?:19|20)\d{2}\s+)?([A-Z][A-Za-z-]+)\s+([A-Z0-9][A-Za-z0-9-]*)(?:\s+([A-Z0-9]{1,4})\b)?/
+  );
+  if (ask) {
+    v.make ??= ask[1];
+    v.model ??= ask[2];
+    if (ask[3]) v.trim ??= ask[3];
+  }
+
+  // "Speed Yellow only"
+  for (const m of text.matchAll(/\b((?:[A-Z][a-z]+\s){0,2}[A-Z][a-z]+)\s+only\b/g)) {
+    if (namesColor(m[1]) && !isOtherConstraint(m[1], v)) {
+      v.color ??= m[1];
+      break;
+    }
+  }
+
+  return v;
+}
+
+function extractIntent(text: string, prior: Intent): Partial<Intent> {
+  const t = text.toLowerCase();
+  const out: Partial<Intent> = {};
+
+  if (/\blong[- ]term\b|\bkeeper\b/.test(t)) out.horizon = "long_term";
+  else if (/\bshort[- ]term\b|\bflip\b/.test(t)) out.horizon = "short_term";
+
+  const usage: NonNullable<Intent["usage"]> = {};
+  if (/\btrack\b|\bhpde\b/.test(t)) usage.track_bias = "high";
+  if (/\bconcours\b|\bshow car\b|\bcollector\b/.test(t)) usage.show_bias = "high";
+  if (/\bdaily\b|\bcommut/.test(t)) usage.street_bias = "high";
+  if (Object.keys(usage).length) out.usage = { ...prior.usage, ...usage };
+
+  const zip = text.match(/\bzip(?:\s*code)?\s*[:=]?\s*(\d{5})\b/i);
+  const place = text.match(/\b(?:live|living|based|located)\s+in\s+([A-Z][a-zA-Z]+(?:\s[A-Z][a-zA-Z]+)?)\b/);
+  if (zip) out.location = { zip: zip[1] };
+  else if (place) out.location = { state: place[1] };
+
+  return out;
+}
+
+/**
+ * Merge this turn's constraints into the session's tiers (the patch replaces
+ * whole tiers). A new single-valued constraint supersedes older ones.
+ */
+function mergeTiers(prior: ConstraintTier, found: Constraint[]): ConstraintTier {
+  const replaced = new Set(found.filter((c) => SINGLE_VALUED.has(c.attribute)).map((c) => c.attribute));
+  const keys = new Set(found.map(constraintKey));
+  const kept = allConstraints(prior).filter((c) => !replaced.has(c.attribute) && !keys.has(constraintKey(c)));
+  const all = [...kept, ...found];
+
+  return {
+    tier1: all.filter((c) => c.tier === 1),
+    tier2: all.filter((c) => c.tier === 2),
+    tier3: all.filter((c) => c.tier === 3),
+  };
+}
+
+function extractPatch(session: AgentSession, text: string) {
+  const vehicle = extractVehicle(text);
+  const hints = { ...session.intent.vehicle, ...vehicle };
+
+  const found = clauses(text).flatMap((c) =>
+    parseConstraintText(c, tierOf(c), hints).filter((x) => x.attribute !== "other")
+  );
+
+  const gen = found.find((c) => c.attribute === "generation");
+  if (gen && typeof gen.value === "string") vehicle.gen ??= gen.value;
+  const years = found.find((c) => c.attribute === "year" && c.operator === "between");
+  if (years) {
+    const r = years.value as { min?: number; max?: number };
+    vehicle.year_range ??= `${r.min}-${r.max}`;
+  }
+  const tx = found.find((c) => c.attribute === "transmission");
+  if (tx) vehicle.transmission ??= String(tx.value);
+
+  const price = found.find((c) => c.attribute === "price" && typeof c.value === "number");
+  const rejections = clauses(text).filter((c) => /^no\s+\w/i.test(c));
+
+  return {
+    intent: {
+      ...(Object.keys(vehicle).length ? { vehicle } : {}),
+      ...(price ? { budget: { max: price.value as number } } : {}),
+      ...extractIntent(text, session.intent),
+    },
+    ...(found.length ? { constraints: mergeTiers(session.constraints, found) } : {}),
+    ...(rejections.length
+      ? { taste: { rejection_rules: [...new Set([...(session.taste.rejection_rules ?? []), ...rejections])] } }
+      : {}),
+  };
+}
+
+function isEmptyPatch(p: ReturnType<typeof extractPatch>) {
+  return !Object.keys(p.intent).length && !p.constraints && !p.taste;
+}
+
+// "email me at a@b.com", "post to https://..." -> watch channels
+function extractNotify(text: string): NotifyChannelConfig[] {
+  const to = [...text.matchAll(/\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g)].map((m) => m[0]);
+  const urls = [...text.matchAll(/\bhttps?:\/\/[^\s,;]+/g)].map((m) => m[0]);
+  return [
+    ...(to.length ? [{ type: "email" as const, to }] : []),
+    ...urls.map((url) => ({ type: "webhook" as const, url })),
+  ];
+}
+
+function respond({ state, session, userMessage }: { state: AgentSession["state"]; session: AgentSession; userMessage: string }) {
+  switch (state) {
+    case "S0_INIT":
+    case "S1_CAPTURE": {
+      const patch = extractPatch(session, userMessage);
+      return isEmptyPatch(patch) ? {} : { patch };
+    }
+    case "S2_CONFIRM": {
+      const patch = extractPatch(session, userMessage);
+      const b = computeCanonicalBoundary(session);
+      return {
+        boundary: { tier1: b.tier1, tier2: b.tier2, hard_rejections: b.hard_rejections, acceptable_compromises: [] },
+        ...(isEmptyPatch(patch) ? {} : { patch }),
+      };
+    }
+    case "S5_WATCH": {
+      const b = computeCanonicalBoundary(session);
+      const t = userMessage.toLowerCase();
+      const notify = extractNotify(userMessage);
+      // Only when stated, so re-asking does not reset an existing watch's cadence
+      const cadence = /\btwice\b/.test(t) ? "twice_weekly" : /\bweekly\b/.test(t) ? "weekly" : /\bdaily\b/.test(t) ? "daily" : undefined;
+      return {
+        watch: {
+          must_have: constraintTexts(b.tier1),
+          acceptable: constraintTexts(b.tier2),
+          reject: b.hard_rejections,
+          sources: ["auto.dev"],
+          ...(cadence ? { cadence } : {}),
+          ...(notify.length ? { notify } : {}),
+        },
+      };
+    }
+    default:
+      // S3/S4 are server-driven; S6 numbered picks are applied server-side
+      return {};
+  }
+}
+
+export const offlineModelProvider: ModelProvider = {
+  id: "offline",
+  label: "Offline extractor (rule-based)",
+  defaultModel: "rules-v1",
+  async complete(call) {
+    return JSON.stringify(respond(call));
+  },
+};
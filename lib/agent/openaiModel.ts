@@ -0,0 +1,68 @@
+import OpenAI from "openai";
+import type { ModelProvider } from "./modelProvider";
+
+// Clients are created on first use so the app boots without a key.
+let responsesClient: OpenAI | undefined;
+let compatibleClient: OpenAI | undefined;
+
+function openai(): OpenAI {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error("OPENAI_API_KEY is not set");
+  }
+  return (responsesClient ??= new OpenAI({ apiKey: process.env.OPENAI_API_KEY }));
+}
+
+function compatible(): OpenAI {
+  if (!process.env.MODEL_BASE_URL) {
+    throw new Error("MODEL_BASE_URL is not set");
+  }
+  return (compatibleClient ??= new OpenAI({
+    baseURL: process.env.MODEL_BASE_URL,
+    // Local servers (Ollama, LM Studio, vLLM) usually ignore the key
+    apiKey: process.env.MODEL_API_KEY || "not-needed",
+  }));
+}
+
+/**
+ * OpenAI Responses API, with json_schema text format when a schema is given.
+ * Non-strict: the response schema has optional and open-ended fields.
+ */
+export const openAIModelProvider: ModelProvider = {
+  id: "openai",
+  label: "OpenAI",
+  defaultModel: "gpt-4.1-mini",
+  structuredOutput: true,
+  async complete({ model, prompt, jsonSchema }) {
+    const response = await openai().responses.create({
+      model,
+      input: prompt,
+      ...(jsonSchema ? { text: { format: { type: "json_schema", strict: false, ...jsonSchema } } } : {}),
+    });
+    const text = response.output_text?.trim();
+    if (!text) throw new Error("No output text found in response");
+    return text;
+  },
+};
+
+/**
+ * Any server speaking the OpenAI Chat Completions API at MODEL_BASE_URL
+ * (e.g. http://localhost:11434/v1 for Ollama). No default model: set MODEL_NAME.
+ * Sends response_format json_schema; servers without it need
+ * MODEL_STRUCTURED_OUTPUT=off.
+ */
+export const openAICompatibleModelProvider: ModelProvider = {
+  id: "openai-compatible",
+  label: "OpenAI-compatible endpoint",
+  structuredOutput: true,
+  async complete({ model, prompt, jsonSchema }) {
+    if (!model) throw new Error("MODEL_NAME is not set");
+    const completion = await compatible().chat.completions.create({
+      model,
+      messages: [{ role: "user", content: prompt }],
+      ...(jsonSchema ? { response_format: { type: "json_schema", json_schema: { strict: false, ...jsonSchema } } } : {}),
+    });
+    const text = completion.choices[0]?.message?.content?.trim();
+    if (!text) throw new Error("No output text found in completion");
+    return text;
+  },
+};
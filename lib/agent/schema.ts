@@ -10,12 +10,135 @@ export type AgentState =
   | "S6_ITERATE"
   | "S7_CLOSE";
 
+/**
+ * Inputs to the state machine (see TRANSITIONS in stateMachine.ts).
+ * User commands come from the start of a chat message; system events are
+ * raised by the server when a step finishes.
+ */
+export type TransitionEvent =
+  // user
+  | "turn"          // plain message, no command
+  | "confirm"
+  | "decide"
+  | "watch"
+  | "revise"
+  | "cancel"
+  // system
+  | "explore_done"
+  | "edits_applied"
+  | "watch_created"
+  | "close";
+
+export type TransitionLogEntry = {
+  at: number;
+  from: AgentState;
+  to: AgentState;
+  event: TransitionEvent;
+  command?: string; // user message that carried the command, if any
+  reason?: string;  // guard that selected this row, e.g. "no ACCEPT finalist"
+};
+
+export type ModelAttempt = {
+  error: string;     // why this attempt was rejected
+  issues?: string[]; // zod issues as "path: message"
+  raw?: string;      // model output, truncated
+};
+
+export type ModelDiagnostic = {
+  at: number;
+  state: AgentState;
+  provider: string;
+  model: string;
+  structured: boolean;      // native JSON-schema output was requested
+  attempts: ModelAttempt[]; // rejected attempts, oldest first
+  outcome: "repaired" | "failed";
+};
+
 export type Verdict = "ACCEPT" | "CONDITIONAL" | "REJECT";
 
+export type ConstraintAttribute =
+  | "make"
+  | "model"
+  | "generation"
+  | "trim"
+  | "year"
+  | "transmission"
+  | "exterior_color"
+  | "mileage"
+  | "price"
+  | "title"
+  | "history"
+  | "other";
+
+export type ConstraintOperator = "eq" | "neq" | "in" | "excludes" | "lte" | "gte" | "between";
+
+export type ConstraintValue = string | number | string[] | { min?: number; max?: number };
+
+/**
+ * Structured constraint. Scoring, watch keys and boundary rendering read
+ * attribute/operator/value; `text` is the user's phrasing, kept for display only.
+ */
+export type Constraint = {
+  attribute: ConstraintAttribute;
+  operator: ConstraintOperator;
+  value: ConstraintValue;
+  tier: 1 | 2 | 3;
+  text: string;
+  qualifier?: "ideal" | "acceptable"; // graded preferences, e.g. mileage
+};
+
 export type ConstraintTier = {
-  tier1: string[];
-  tier2: string[];
-  tier3: string[];
+  tier1: Constraint[];
+  tier2: Constraint[];
+  tier3: Constraint[];
+};
+
+/**
+ * A proposed boundary change (S4 suggestions, applied in S6 Iterate).
+ * `target` is the constraintKey of the constraint being replaced or removed.
+ */
+export type ConstraintEdit = {
+  id: string; // what the user types to pick it: "1", "2", ...
+  label: string;
+  kind: "replace" | "remove" | "add";
+  attribute: ConstraintAttribute;
+  target?: string;
+  replacement?: Constraint;
+  impact?: EditImpact;
+};
+
+/**
+ * Counterfactual result of one edit, measured on the listings already fetched.
+ */
+export type EditImpact = {
+  unlocked: number; // fetched listings that would newly pass Tier 1
+  best?: { id: string; title: string; score: number; url?: string };
+  // The attribute was also a provider query filter, so listings it excluded
+  // were never fetched: the real gain may be larger.
+  lowerBound: boolean;
+};
+
+export type BoundaryDiff = {
+  removed: Constraint[];
+  added: Constraint[];
+  moved: { constraint: Constraint; from: Constraint["tier"]; to: Constraint["tier"] }[];
+};
+
+/**
+ * One S6 revision: what changed, and the run it replaced (kept for comparison).
+ */
+export type IterationRecord = {
+  at: number;
+  applied: string[]; // labels of the suggested edits the user picked
+  before: ConstraintTier;
+  after: ConstraintTier;
+  diff: BoundaryDiff;
+  prior: {
+    finalists: Candidate[];
+    discovery: Candidate[];
+    decision?: AgentSession["decision"];
+    explore_stats?: ExploreStats;
+  };
 };
 
 export type Taste = {
@@ -59,19 +182,126 @@ export type Intent = {
     max?: number;
     notes?: string;
   };
+  // Where the buyer is (for distance and transport); ZIP wins over state
+  location?: {
+    zip?: string;
+    state?: string;
+  };
 };
 
 export type Candidate = {
   id: string;
   title: string;
   url?: string;
+  price?: number;
   verdict: Verdict;
   score: number; // 0–100
   rationale: string[];
   images?: string[];
   is_placeholder?: boolean;
+  market?: CandidateMarket;
+  history?: ListingHistory;
+  location?: CandidateLocation;
+  breakdown?: ScoreLine[]; // where each point of `score` came from, in order
+  evidence?: Evidence[];   // what scoring found; rationale and breakdown are rendered from it
+};
+
+export type EvidenceOutcome = "confirmed" | "unknown" | "contradicted";
+
+/**
+ * One finding from scoring a listing (lib/market/scoreAndTier.ts).
+ * Downstream logic reads these fields; `text` is for display only.
+ */
+export type Evidence = {
+  attribute: ConstraintAttribute | "vin" | "market_value" | "listing_history" | "location";
+  outcome: EvidenceOutcome;
+  // Listing field it came from (a CandidateSignals key such as "exteriorColor",
+  // "rawText", "vin"), or a derived input: "comparables", "observations", "seed"
+  source: string;
+  matched?: string; // the text that confirmed or contradicted the requirement
+  delta: number;    // score points; 0 when informational
+  gating?: boolean; // part of the Tier 1 gate: unknown keeps it out of finalists
+  text: string;
+};
+
+/**
+ * One line of a candidate's score: the profile base, then each adjustment.
+ */
+export type ScoreLine = { label: string; points: number };
+
+export type ScoringProfileName = "balanced" | "collector" | "daily_driver" | "track_build";
+
+/**
+ * Points and thresholds scoreAndTier applies (lib/market/scoringProfile.ts).
+ * Penalties are negative numbers.
+ */
+export type ScoringWeights = {
+  base: number;
+  manual: number;
+  trimConfirmed: number;
+  colorConfirmed: number;
+  withinBudget: number;
+  overBudget: number;
+  mileageIdeal: number;
+  mileageOk: number;
+  mileageOver: number;
+  dealPer10Pct: number; // points per 10% below comparables
+  dealMax: number;      // cap on |deal points|
+  vinYearMismatch: number;
+  deprioritizedRegion: number;
+  saltBelt: number;
+  acceptThreshold: number; // Tier 1 finalists at or above this are ACCEPT
+};
+
+export type ScoringProfile = {
+  name: ScoringProfileName;
+  label: string;
+  weights: ScoringWeights;
+  source: "session" | "usage" | "default"; // how this profile was chosen
+};
+
+/**
+ * Where a listing is relative to the buyer (lib/market/geo.ts).
+ * Distances are state-to-state approximations.
+ */
+export type CandidateLocation = {
+  state: string;
+  saltBelt: boolean;
+  distanceMi?: number;   // from the buyer's home, when known
+  transportUsd?: number; // estimated shipping; 0 when close enough to drive
+  effectivePrice?: number; // price + transportUsd
+};
+
+/**
+ * What we have observed about one listing across Explore and watch runs
+ * (lib/market/observationStore.ts). Providers carry no history, so
+ * daysListed counts from our first sighting: a lower bound.
+ */
+export type ListingHistory = {
+  firstSeenAt: number;
+  daysListed: number;
+  sightings: number;
+  firstPrice?: number;
+  priceDrop?: number; // firstPrice - current price, when positive
+  lastDropAt?: number;
+  relisted?: boolean; // seen again after a run found it gone
+};
+
+/**
+ * Comparables-based valuation (lib/market/marketValue.ts).
+ */
+export type CandidateMarket = {
+  expected: number; // USD
+  deltaPct: number; // (price - expected) / expected; negative = below market
+  comps: number;
+  basis: string;
 };
 
+export type NotifyChannelConfig =
+  | { type: "webhook"; url: string; headers?: Record<string, string> }
+  | { type: "email"; to: string[] }
+  | { type: "file"; dir?: string };
+
 export type WatchSpec = {
   must_have: string[];
   acceptable: string[];
@@ -85,6 +315,20 @@ export type WatchSpec = {
   budget?: { max?: number; notes?: string };
   cadence?: "daily" | "twice_weekly" | "weekly";
   search_strings?: Record<string, string[]>;
+  constraints?: Constraint[]; // structured boundary the watch was created from
+  vehicle?: Intent["vehicle"]; // make/model the watch re-searches
+  location?: Intent["location"]; // buyer's home, for distance and transport
+  notify?: NotifyChannelConfig[]; // defaults to the local file outbox
+  scoring?: ScoringProfile; // resolved when the watch was created, so runs score like the chat did
+};
+
+export type ExploreStats = {
+  pagesScanned: number;     // deepest page requested from any provider
+  listingsScanned: number;  // raw listings fetched across all pages/providers
+  providerPages: Record<string, number>;
+  tier1Found: number;
+  exhaustive: boolean;      // every provider ran out of results
+  stopReason: "enough_finalists" | "exhausted" | "listing_budget" | "time_budget";
 };
 
 export type AgentSession = {
@@ -97,6 +341,20 @@ export type AgentSession = {
   finalists: Candidate[];
   discovery: Candidate[];
   watch?: WatchSpec;
+  // ---- S3 Explore retrieval depth ----
+  explore_stats?: ExploreStats;
+  // ---- S6 Iterate history (oldest first) ----
+  iterations?: IterationRecord[];
+  // ---- One snapshot per Explore run (oldest first) ----
+  explore_runs?: ExploreRunSnapshot[];
+  // ---- S7 Close artifact ----
+  summary?: CloseSummary;
+  // ---- Scoring profile: explicit choice and weight overrides (else from intent.usage/horizon) ----
+  scoring?: { profile?: ScoringProfileName; weights?: Partial<ScoringWeights> };
+  // ---- Append-only audit trail of state transitions ----
+  event_log?: TransitionLogEntry[];
+  // ---- Model calls that needed repair or failed (newest last, capped) ----
+  model_diagnostics?: ModelDiagnostic[];
   last_user_message?: string;
   notes?: string[];
   // ---- S4 Decide artifact ----
@@ -107,8 +365,8 @@ export type AgentSession = {
     // ACT
     selected?: Candidate;
 
-    // REVISE
-    suggestedEdits?: string[];
+    // REVISE / WATCH (picked in S6 Iterate)
+    suggestedEdits?: ConstraintEdit[];
 
     // WATCH (optional, future-proof)
     blockers?: string[];
@@ -116,6 +374,32 @@ export type AgentSession = {
   };
 };
 
+export type ExploreRunSnapshot = {
+  at: number;
+  boundary: ConstraintTier;
+  finalists: Candidate[];
+  discovery: Candidate[];
+  stats?: ExploreStats;
+  decision?: NonNullable<AgentSession["decision"]>["action"];
+};
+
+/**
+ * S7 Close artifact: everything needed to review the hunt without replaying it.
+ */
+export type CloseSummary = {
+  sessionId: string;
+  closedAt: number;
+  vehicle: NonNullable<Intent["vehicle"]>;
+  budget?: Intent["budget"];
+  boundary: ConstraintTier & { hard_rejections: string[] };
+  decision?: AgentSession["decision"];
+  selected?: Candidate;
+  watch?: WatchSpec;
+  timeline: TransitionLogEntry[];
+  explore_runs: ExploreRunSnapshot[];
+  iterations: number;
+};
+
 export type ChatMessage = {
   id: string;
   role: "user" | "assistant";
@@ -125,7 +409,7 @@ export type ChatMessage = {
 };
 
 export type AgentApiRequest = {
-  session: AgentSession;
+  sessionId: string; // server owns the session; the client only names it
   userMessage: string;
   userImages?: string[];
 };
@@ -134,3 +418,20 @@ export type AgentApiResponse = {
   userFacingMessage: string;
   session: AgentSession;
 };
+
+export type SessionSummary = {
+  id: string;
+  title?: string;
+  forkedFrom?: string;
+  state: AgentState;
+  vehicle?: Intent["vehicle"];
+  decisionAction?: NonNullable<AgentSession["decision"]>["action"];
+  messageCount: number;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type SessionResponse = {
+  session: AgentSession;
+  messages: ChatMessage[];
+};
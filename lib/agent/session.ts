@@ -0,0 +1,43 @@
+import type { AgentSession, ChatMessage } from "./schema";
+
+/**
+ * Fresh session defaults. Shared by the server (new sessions) and the client
+ * (placeholder before the first fetch completes), so both agree on shape.
+ */
+export function defaultSession(id: string): AgentSession {
+  return {
+    id,
+    state: "S0_INIT",
+    goal_type: "vehicle_hunt",
+    intent: {
+      goal_type: "vehicle_hunt",
+      vehicle: {},
+      goal: {},
+      usage: { street_bias: "high", track_bias: "low", show_bias: "low" },
+      horizon: "long_term",
+      budget: {},
+    },
+    constraints: { tier1: [], tier2: [], tier3: [] },
+    taste: {
+      era_correctness: "medium",
+      materials_allowed: [],
+      materials_excluded: [],
+      aesthetics: { aggression: "medium", branding: "subtle" },
+      authenticity: { oem: "preferred", repro: "conditional" },
+      rejection_rules: [],
+    },
+    finalists: [],
+    discovery: [],
+    notes: [],
+  };
+}
+
+export function greetingMessage(id: string, timestamp: number): ChatMessage {
+  return {
+    id,
+    role: "assistant",
+    content:
+      "Initialized v1. Paste a test case (e.g., your Boxster hunt or E92 interior swap). You can optionally upload images.",
+    timestamp,
+  };
+}
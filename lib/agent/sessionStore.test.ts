@@ -0,0 +1,75 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { ChatMessage } from "./schema";
+import { appendTurn, createSessionRecord, deleteSession, getSessionRecord, listSessionSummaries, setSessionScoring } from "./sessionStore";
+
+const dir = mkdtempSync(path.join(tmpdir(), "sessions-"));
+process.env.SESSION_STORE_DIR = dir;
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+  delete process.env.SESSION_STORE_DIR;
+});
+
+const msg = (role: ChatMessage["role"], content: string): ChatMessage => ({ id: content, role, content, timestamp: 0 });
+
+test("a new session starts with the greeting and round-trips through disk", () => {
+  const created = createSessionRecord();
+  assert.equal(created.messages.length, 1);
+  assert.equal(created.messages[0].role, "assistant");
+  assert.deepEqual(getSessionRecord(created.session.id), created);
+});
+
+test("appendTurn stores the new session state and appends messages", () => {
+  const { session, createdAt } = createSessionRecord();
+  const next = { ...session, state: "S2_CONFIRM" as const };
+
+  appendTurn(next, [msg("user", "a 986 Boxster S"), msg("assistant", "Manual?")]);
+  const stored = getSessionRecord(session.id)!;
+
+  assert.equal(stored.session.state, "S2_CONFIRM");
+  assert.deepEqual(stored.messages.slice(1).map((m) => m.content), ["a 986 Boxster S", "Manual?"]);
+  assert.equal(stored.createdAt, createdAt);
+  assert.ok(stored.updatedAt >= createdAt);
+  // Atomic writes leave no temp files behind
+  assert.ok(readdirSync(dir).every((f) => f.endsWith(".json")));
+});
+
+test("a turn keeps a scoring change made while it ran, and never recreates a deleted session", () => {
+  const { session } = createSessionRecord();
+  const turn = { ...session, state: "S2_CONFIRM" as const };
+
+  setSessionScoring(session.id, { profile: "collector" });
+  appendTurn(turn, [msg("user", "manual only")]);
+  const stored = getSessionRecord(session.id)!;
+  assert.equal(stored.session.state, "S2_CONFIRM");
+  assert.deepEqual(stored.session.scoring, { profile: "collector" });
+
+  // Cleared mid-turn: the turn's stale choice does not come back
+  setSessionScoring(session.id, null);
+  appendTurn({ ...turn, scoring: { profile: "collector" } }, []);
+  assert.equal(getSessionRecord(session.id)!.session.scoring, undefined);
+
+  deleteSession(session.id);
+  assert.equal(appendTurn(turn, [msg("user", "still there?")]), undefined);
+  assert.equal(getSessionRecord(session.id), undefined);
+});
+
+test("unknown or unsafe ids read as missing", () => {
+  assert.equal(getSessionRecord("does-not-exist"), undefined);
+  assert.equal(getSessionRecord("../../etc/passwd"), undefined);
+});
+
+test("summaries list the most recently updated session first", async () => {
+  const older = createSessionRecord();
+  const newer = createSessionRecord();
+  await new Promise((r) => setTimeout(r, 5));
+  appendTurn(older.session, [msg("user", "bump")]);
+
+  const ids = listSessionSummaries().map((s) => s.id);
+  assert.ok(ids.indexOf(older.session.id) < ids.indexOf(newer.session.id));
+  assert.equal(listSessionSummaries().find((s) => s.id === older.session.id)?.messageCount, 2);
+});
@@ -0,0 +1,216 @@
+import fs from "node:fs";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import type { AgentSession, ChatMessage, SessionSummary } from "./schema";
+import { defaultSession, greetingMessage } from "./session";
+
+/**
+ * Server-side session store (v1): one JSON file per session.
+ *
+ * - Location: SESSION_STORE_DIR (default .data/sessions)
+ * - The server is the source of truth; clients send only the session id.
+ * - Same conventions as the watch store: synchronous, atomic writes.
+ */
+
+export type SessionRecord = {
+  title?: string; // user-assigned name; summaries fall back to the vehicle
+  forkedFrom?: string;
+  session: AgentSession;
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+};
+
+function storeDir() {
+  return path.resolve(process.cwd(), process.env.SESSION_STORE_DIR ?? ".data/sessions");
+}
+
+// Ids come from clients; never let one escape the store directory.
+function safeId(id: string) {
+  return /^[A-Za-z0-9_-]{1,80}$/.test(id) ? id : undefined;
+}
+
+function recordPath(id: string) {
+  return path.join(storeDir(), `${id}.json`);
+}
+
+function save(record: SessionRecord) {
+  const file = recordPath(record.session.id);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(record, null, 2) + "\n", "utf8");
+  fs.renameSync(tmp, file);
+}
+
+export function newId() {
+  return randomUUID();
+}
+
+export function createSessionRecord(): SessionRecord {
+  const now = Date.now();
+  const id = newId();
+  const record: SessionRecord = {
+    session: defaultSession(id),
+    messages: [greetingMessage(newId(), now)],
+    createdAt: now,
+    updatedAt: now,
+  };
+  save(record);
+  return record;
+}
+
+export function getSessionRecord(id: string): SessionRecord | undefined {
+  if (!safeId(id)) return undefined;
+  try {
+    return JSON.parse(fs.readFileSync(recordPath(id), "utf8")) as SessionRecord;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException)?.code === "ENOENT") return undefined;
+    throw e;
+  }
+}
+
+/**
+ * Persist the session produced by a turn and append that turn's messages.
+ * Merges into the record as it is now, not as the turn found it: the scoring
+ * profile is only set through the sessions API, so a change made while the
+ * turn ran is kept. Returns undefined (and writes nothing) if the session was
+ * deleted meanwhile.
+ */
+export function appendTurn(session: AgentSession, messages: ChatMessage[]): SessionRecord | undefined {
+  const prior = getSessionRecord(session.id);
+  if (!prior) return undefined;
+
+  const next = { ...session };
+  if (prior.session.scoring) next.scoring = prior.session.scoring;
+  else delete next.scoring;
+
+  const record: SessionRecord = {
+    ...prior,
+    session: next,
+    messages: [...prior.messages, ...messages],
+    updatedAt: Date.now(),
+  };
+  save(record);
+  return record;
+}
+
+export function renameSession(id: string, title: string): SessionRecord | undefined {
+  const record = getSessionRecord(id);
+  if (!record) return undefined;
+
+  const next = { ...record, title: title.trim() || undefined, updatedAt: Date.now() };
+  save(next);
+  return next;
+}
+
+/**
+ * Set (or, with null, clear) the session's scoring profile. Takes effect on
+ * the next Explore; existing candidates keep the scores they were given.
+ */
+export function setSessionScoring(id: string, scoring: AgentSession["scoring"] | null): SessionRecord | undefined {
+  const record = getSessionRecord(id);
+  if (!record) return undefined;
+
+  const session = { ...record.session };
+  if (scoring) session.scoring = scoring;
+  else delete session.scoring;
+
+  const next = { ...record, session, updatedAt: Date.now() };
+  save(next);
+  return next;
+}
+
+export function deleteSession(id: string): boolean {
+  if (!safeId(id)) return false;
+  try {
+    fs.unlinkSync(recordPath(id));
+    return true;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException)?.code === "ENOENT") return false;
+    throw e;
+  }
+}
+
+/**
+ * Fork a hunt: keep intent, constraints and taste (the confirmed boundary),
+ * drop everything Explore/Decide/Watch produced, and resume at S2 so one rule
+ * (e.g. color) can be changed before re-exploring.
+ */
+export function duplicateSession(id: string): SessionRecord | undefined {
+  const source = getSessionRecord(id);
+  if (!source) return undefined;
+
+  const now = Date.now();
+  const newSessionId = newId();
+  const label = source.title ?? vehicleLabel(source.session);
+  const boundaryReady = source.session.constraints.tier1.length > 0;
+
+  const session: AgentSession = {
+    ...defaultSession(newSessionId),
+    goal_type: source.session.goal_type,
+    intent: structuredClone(source.session.intent),
+    constraints: structuredClone(source.session.constraints),
+    taste: structuredClone(source.session.taste),
+    state: boundaryReady ? "S2_CONFIRM" : source.session.state === "S0_INIT" ? "S0_INIT" : "S1_CAPTURE",
+  };
+
+  const record: SessionRecord = {
+    title: source.title ? `${source.title} (copy)` : undefined,
+    forkedFrom: id,
+    session,
+    messages: [
+      {
+        id: newId(),
+        role: "assistant",
+        content:
+          `Forked from **${label}**. Intent and constraints carried over; candidates, decision and watch were not.\n\n` +
+          (boundaryReady
+            ? "Edit any rule (e.g. a different color), or reply **confirm** to re-run Explore (S3)."
+            : "Continue describing the hunt."),
+        timestamp: now,
+      },
+    ],
+    createdAt: now,
+    updatedAt: now,
+  };
+  save(record);
+  return record;
+}
+
+function vehicleLabel(s: AgentSession) {
+  const v = s.intent?.vehicle ?? {};
+  return [v.make, v.model, v.gen].filter(Boolean).join(" ") || "Untitled hunt";
+}
+
+export function summarize(r: SessionRecord): SessionSummary {
+  return {
+    id: r.session.id,
+    title: r.title,
+    forkedFrom: r.forkedFrom,
+    state: r.session.state,
+    vehicle: r.session.intent?.vehicle,
+    decisionAction: r.session.decision?.action,
+    messageCount: r.messages.length,
+    createdAt: r.createdAt,
+    updatedAt: r.updatedAt,
+  };
+}
+
+/**
+ * Most recently updated first.
+ */
+export function listSessionSummaries(): SessionSummary[] {
+  let files: string[];
+  try {
+    files = fs.readdirSync(storeDir()).filter((f) => f.endsWith(".json"));
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException)?.code === "ENOENT") return [];
+    throw e;
+  }
+
+  return files
+    .map((f) => getSessionRecord(f.slice(0, -".json".length)))
+    .filter((r): r is SessionRecord => r != null)
+    .map(summarize)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
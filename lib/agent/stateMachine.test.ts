@@ -0,0 +1,97 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { AgentSession, AgentState, Candidate } from "./schema";
+import { defaultSession } from "./session";
+import { parseConstraintText } from "./constraints";
+import { advanceOnUserMessage, findTransition, parseUserCommand, TRANSITIONS, transition } from "./stateMachine";
+
+const STATES: AgentState[] = [
+  "S0_INIT",
+  "S1_CAPTURE",
+  "S2_CONFIRM",
+  "S3_EXPLORE",
+  "S4_DECIDE",
+  "S5_WATCH",
+  "S6_ITERATE",
+  "S7_CLOSE",
+];
+
+function at(state: AgentState, patch: Partial<AgentSession> = {}): AgentSession {
+  return { ...defaultSession("t"), state, ...patch };
+}
+
+test("every state accepts a plain turn", () => {
+  for (const s of STATES) {
+    assert.ok(findTransition(at(s), "turn"), `no turn row for ${s}`);
+  }
+});
+
+test("rows reference only known states", () => {
+  for (const t of TRANSITIONS) {
+    if (t.from !== "*") assert.ok(STATES.includes(t.from), t.from);
+    assert.ok(STATES.includes(t.to), t.to);
+  }
+});
+
+test("capture advances to confirm only once tier 1 has three constraints", () => {
+  const two = at("S1_CAPTURE");
+  two.constraints.tier1 = parseConstraintText("2003-2004, manual", 1);
+  assert.equal(advanceOnUserMessage(two, "ok").state, "S1_CAPTURE");
+
+  const three = at("S1_CAPTURE");
+  three.constraints.tier1 = parseConstraintText("986.2 (2003-2004), manual", 1);
+  const next = advanceOnUserMessage(three, "ok");
+  assert.equal(next.state, "S2_CONFIRM");
+  assert.equal(next.event_log?.at(-1)?.reason, "tier 1 has ≥3 constraints");
+});
+
+test("decide goes to close with an ACCEPT finalist, otherwise to watch", () => {
+  const accepted = at("S4_DECIDE", { finalists: [{ verdict: "ACCEPT" } as Candidate] });
+  assert.equal(advanceOnUserMessage(accepted, "ok").state, "S7_CLOSE");
+  assert.equal(advanceOnUserMessage(at("S4_DECIDE"), "ok").state, "S5_WATCH");
+});
+
+test("a command only applies where the table accepts it", () => {
+  const watched = advanceOnUserMessage(at("S3_EXPLORE"), "Watch this one");
+  assert.equal(watched.state, "S5_WATCH");
+  assert.deepEqual(watched.event_log?.at(-1), {
+    at: watched.event_log!.at(-1)!.at,
+    from: "S3_EXPLORE",
+    to: "S5_WATCH",
+    event: "watch",
+    command: "Watch this one",
+  });
+
+  // Asking again from S5 stays there so the route can update the watch
+  const again = advanceOnUserMessage(at("S5_WATCH"), "watch this, email me a@b.com");
+  assert.equal(again.state, "S5_WATCH");
+  assert.equal(again.event_log?.at(-1)?.event, "watch");
+
+  // S2 has no watch row: the message is an ordinary turn
+  const plain = advanceOnUserMessage(at("S2_CONFIRM"), "watch");
+  assert.equal(plain.state, "S3_EXPLORE");
+  assert.equal(plain.event_log?.at(-1)?.event, "turn");
+});
+
+test("transition appends to the event log and throws on an unknown pair", () => {
+  const s = transition(transition(at("S3_EXPLORE"), "explore_done", { at: 1 }), "watch_created", { at: 2 });
+  assert.deepEqual(
+    s.event_log?.map((e) => [e.at, e.from, e.to, e.event]),
+    [
+      [1, "S3_EXPLORE", "S4_DECIDE", "explore_done"],
+      [2, "S4_DECIDE", "S5_WATCH", "watch_created"],
+    ]
+  );
+  assert.throws(() => transition(at("S0_INIT"), "explore_done"), /No transition for explore_done in S0_INIT/);
+});
+
+test("only a bare close command closes, and only after a search has run", () => {
+  assert.equal(parseUserCommand("Close session."), "close");
+  assert.equal(parseUserCommand("close to Ohio is preferred"), null);
+
+  assert.equal(advanceOnUserMessage(at("S4_DECIDE"), "close").state, "S7_CLOSE");
+  assert.equal(advanceOnUserMessage(at("S5_WATCH"), "close the session").state, "S7_CLOSE");
+  // Before S4 it is an ordinary turn
+  assert.equal(advanceOnUserMessage(at("S2_CONFIRM"), "close").state, "S3_EXPLORE");
+  assert.equal(advanceOnUserMessage(at("S2_CONFIRM"), "close to Ohio is preferred").event_log?.at(-1)?.event, "turn");
+});
@@ -1,29 +1,120 @@
-import { AgentSession, AgentState, Candidate } from "./schema";
-
-export function nextExecState(session: AgentSession): AgentState {
-  // Convergent guardrails
-  switch (session.state) {
-    case "S0_INIT":
-      return "S1_CAPTURE";
-    case "S1_CAPTURE":
-      // Heuristic: consider "captured" if we have at least 3 Tier-1 constraints
-      return session.constraints.tier1.length >= 3 ? "S2_CONFIRM" : "S1_CAPTURE";
-    case "S2_CONFIRM":
-      return "S3_EXPLORE";
-    case "S3_EXPLORE":
-      return "S4_DECIDE";
-    case "S4_DECIDE":
-      // Model (or stub) chooses next; default to Watch if no accepted finalists
-      return session.finalists.some((c) => c.verdict === "ACCEPT") ? "S7_CLOSE" : "S5_WATCH";
-    case "S5_WATCH":
-      return "S7_CLOSE";
-    case "S6_ITERATE":
-      return "S2_CONFIRM";
-    case "S7_CLOSE":
-      return "S7_CLOSE";
-    default:
-      return "S1_CAPTURE";
-  }
+import { AgentSession, AgentState, Candidate, TransitionEvent, TransitionLogEntry } from "./schema";
+
+type Transition = {
+  from: AgentState | "*";
+  event: TransitionEvent;
+  to: AgentState;
+  guard?: (session: AgentSession) => boolean;
+  reason?: string; // recorded in the event log when this row fires
+};
+
+/**
+ * The state machine, declaratively. Rows are tried in order; the first row
+ * whose state, event and guard all match wins.
+ *
+ * Every state change goes through transition() so it lands in session.event_log.
+ */
+export const TRANSITIONS: readonly Transition[] = [
+  // ---- user commands ----
+  { from: "S2_CONFIRM", event: "confirm", to: "S3_EXPLORE" },
+  { from: "S3_EXPLORE", event: "watch", to: "S5_WATCH" },
+  { from: "S3_EXPLORE", event: "decide", to: "S4_DECIDE" },
+  { from: "S3_EXPLORE", event: "confirm", to: "S4_DECIDE" },
+  { from: "S4_DECIDE", event: "watch", to: "S5_WATCH" },
+  // Asking again (new email or cadence) updates the watch instead of closing
+  { from: "S5_WATCH", event: "watch", to: "S5_WATCH" },
+  { from: "S2_CONFIRM", event: "revise", to: "S1_CAPTURE" },
+  // After a search, revise keeps context and iterates on the boundary (S6)
+  { from: "S4_DECIDE", event: "revise", to: "S6_ITERATE" },
+  { from: "S5_WATCH", event: "revise", to: "S6_ITERATE" },
+  { from: "S6_ITERATE", event: "cancel", to: "S4_DECIDE", reason: "boundary kept" },
+  // Closing is final (nothing leaves S7), so only once a search has run
+  { from: "S4_DECIDE", event: "close", to: "S7_CLOSE" },
+  { from: "S5_WATCH", event: "close", to: "S7_CLOSE" },
+
+  // ---- plain turns (convergent guardrails) ----
+  { from: "S0_INIT", event: "turn", to: "S1_CAPTURE" },
+  // Heuristic: consider "captured" if we have at least 3 Tier-1 constraints
+  { from: "S1_CAPTURE", event: "turn", to: "S2_CONFIRM", guard: hasTier1, reason: "tier 1 has ≥3 constraints" },
+  { from: "S1_CAPTURE", event: "turn", to: "S1_CAPTURE", reason: "tier 1 has <3 constraints" },
+  { from: "S2_CONFIRM", event: "turn", to: "S3_EXPLORE" },
+  { from: "S3_EXPLORE", event: "turn", to: "S4_DECIDE" },
+  { from: "S4_DECIDE", event: "turn", to: "S7_CLOSE", guard: hasAccepted, reason: "ACCEPT finalist present" },
+  { from: "S4_DECIDE", event: "turn", to: "S5_WATCH", reason: "no ACCEPT finalist" },
+  { from: "S5_WATCH", event: "turn", to: "S7_CLOSE" },
+  { from: "S6_ITERATE", event: "turn", to: "S6_ITERATE", reason: "awaiting edits" },
+  { from: "S7_CLOSE", event: "turn", to: "S7_CLOSE" },
+
+  // ---- system events ----
+  { from: "S3_EXPLORE", event: "explore_done", to: "S4_DECIDE" },
+  { from: "S6_ITERATE", event: "edits_applied", to: "S3_EXPLORE" },
+  { from: "S4_DECIDE", event: "watch_created", to: "S5_WATCH" },
+  { from: "S5_WATCH", event: "watch_created", to: "S5_WATCH" },
+];
+
+function hasTier1(session: AgentSession) {
+  return session.constraints.tier1.length >= 3;
+}
+
+function hasAccepted(session: AgentSession) {
+  return session.finalists.some((c) => c.verdict === "ACCEPT");
+}
+
+export function findTransition(session: AgentSession, event: TransitionEvent): Transition | undefined {
+  return TRANSITIONS.find(
+    (t) => (t.from === "*" || t.from === session.state) && t.event === event && (!t.guard || t.guard(session))
+  );
+}
+
+/**
+ * Apply an event and append it to the event log.
+ * Throws when the table has no row for (state, event): callers only raise
+ * events the current state accepts, so that is a programming error.
+ */
+export function transition(
+  session: AgentSession,
+  event: TransitionEvent,
+  opts: { command?: string; at?: number } = {}
+): AgentSession {
+  const row = findTransition(session, event);
+  if (!row) throw new Error(`No transition for ${event} in ${session.state}`);
+
+  const entry: TransitionLogEntry = {
+    at: opts.at ?? Date.now(),
+    from: session.state,
+    to: row.to,
+    event,
+    ...(opts.command ? { command: opts.command } : {}),
+    ...(row.reason ? { reason: row.reason } : {}),
+  };
+
+  return { ...session, state: row.to, event_log: [...(session.event_log ?? []), entry] };
+}
+
+/**
+ * Leading keyword -> user command. State-independent: whether the command
+ * applies is the table's decision. "close" must be the whole message (or
+ * "close session"): "close to Ohio is preferred" is a plain turn.
+ */
+export function parseUserCommand(userMessage: string): TransitionEvent | null {
+  const t = userMessage.trim().toLowerCase();
+  if (/^confirm\b/.test(t)) return "confirm";
+  if (/^(act|decide)\b/.test(t)) return "decide";
+  if (/^watch\b/.test(t)) return "watch";
+  if (/^revise\b/.test(t)) return "revise";
+  if (/^cancel\b/.test(t)) return "cancel";
+  if (/^close(\s+(the\s+)?session)?[.!]?$/.test(t)) return "close";
+  return null;
+}
+
+/**
+ * One user turn: apply the command if the current state accepts it,
+ * otherwise advance as a plain turn.
+ */
+export function advanceOnUserMessage(session: AgentSession, userMessage: string): AgentSession {
+  const cmd = parseUserCommand(userMessage);
+  if (cmd && findTransition(session, cmd)) return transition(session, cmd, { command: userMessage });
+  return transition(session, "turn");
 }
 
 export function clampFinalists(items: Candidate[]) {
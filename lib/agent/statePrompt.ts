@@ -1,4 +1,5 @@
 import { AgentSession } from "./schema";
+import { currentEdits } from "./iterate";
 
 /**
  * v1 prompt strategy:
@@ -25,6 +26,7 @@ ${JSON.stringify(
     constraints: session.constraints,
     taste: session.taste,
     watch: session.watch ?? null,
+    ...(session.state === "S6_ITERATE" ? { suggested_edits: currentEdits(session) } : {}),
   },
   null,
   2
@@ -41,9 +43,22 @@ S1_CAPTURE:
 - Extract what you can from the user message into a "patch" object:
   - patch.intent.vehicle (make/model/gen/trim/color/transmission/year_range)
   - patch.intent.budget.max (number) if provided
+  - patch.intent.location ({ "zip": "..." } or { "state": "OH" }) if the user says where they live
+  - patch.intent.usage ({ street_bias, track_bias, show_bias }: "low" | "medium" | "high") and
+    patch.intent.horizon ("short_term" | "long_term") if the user says how the car will be used or kept
   - patch.constraints.tier1 (non-negotiables / deal-breakers)
   - patch.constraints.tier2 (strong preferences)
   - patch.constraints.tier3 (nice-to-haves)
+  - Each constraint is an object:
+    { "attribute": ..., "operator": ..., "value": ..., "text": "<user's phrasing>", "qualifier"?: "ideal" | "acceptable" }
+    attribute: make | model | generation | trim | year | transmission | exterior_color | mileage | price | title | history | other
+    operator: eq | neq | in | excludes | lte | gte | between
+    value: string, number, array of strings, or { "min": n, "max": n } for between
+    Examples:
+      { "attribute": "exterior_color", "operator": "eq", "value": "Speed Yellow", "text": "Speed Yellow only" }
+      { "attribute": "year", "operator": "between", "value": { "min": 2003, "max": 2004 }, "text": "2003-2004" }
+      { "attribute": "mileage", "operator": "lte", "value": 50000, "qualifier": "ideal", "text": "under 50k ideal" }
+    Use "other" (value = the phrase) for anything that does not fit.
   - patch.taste.rejection_rules (explicit hard no’s if stated)
 - If critical info is missing AFTER extraction, return up to 4 clarifying questions in "questions".
 - Output shape:
@@ -51,7 +66,7 @@ S1_CAPTURE:
 
 S2_CONFIRM:
 - Produce a "boundary" object that reflects the extracted constraints/taste:
-  - tier1, tier2, hard_rejections, acceptable_compromises
+  - tier1, tier2 (constraint objects, same shape as S1), hard_rejections, acceptable_compromises
 - You may also include a small "patch" if you’re correcting/normalizing earlier extraction.
 - Output shape:
   { "boundary": {...}, "patch": {...optional...} }
@@ -63,10 +78,22 @@ S3_EXPLORE:
 S4_DECIDE:
 - Return {}. (server decides based on candidates; v1 uses placeholders)
 
+S6_ITERATE:
+- The user is revising the boundary after a search. Numbered suggestions are in "suggested_edits";
+  the server applies numbered picks itself, so do NOT apply those.
+- If the user describes a change in their own words (e.g. "relax color to any yellow", "allow a 2005"),
+  return a "patch" whose constraints.tier1/tier2/tier3 are the FULL updated tiers (same constraint
+  object shape as S1) with only that change made.
+- Otherwise return {}.
+
 S5_WATCH:
 - Produce a "watch" object suitable for saving/exporting:
   - must_have, acceptable, reject, sources, cadence
   - optional geography and search_strings
+  - geography.include / exclude / deprioritize are arrays of US state codes or regions
+    ("northeast", "midwest", "south", "west", "salt belt")
+  - optional notify, ONLY if the user asked for it: an array of
+    { "type": "email", "to": ["..."] } | { "type": "webhook", "url": "https://..." } | { "type": "file" }
 - Output shape:
   { "watch": {...}, "patch": {...optional...} }
 - must_have / acceptable / reject MUST be arrays of strings (NOT objects).
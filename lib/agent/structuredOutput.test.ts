@@ -0,0 +1,133 @@
+import { afterEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { registerModelProvider, type ModelCall } from "./modelProvider";
+import { defaultSession } from "./session";
+import type { AgentSession, ModelDiagnostic } from "./schema";
+import { completeStructured, parseModelOutput, recordModelDiagnostic } from "./structuredOutput";
+
+// Scripted backend: replies in order, records every call
+const calls: ModelCall[] = [];
+let replies: (string | Error)[] = [];
+
+registerModelProvider({
+  id: "scripted",
+  label: "Scripted (tests)",
+  defaultModel: "script-1",
+  structuredOutput: true,
+  async complete(call) {
+    calls.push(call);
+    const next = replies.shift() ?? "{}";
+    if (next instanceof Error) throw next;
+    return next;
+  },
+});
+
+function script(...r: (string | Error)[]) {
+  calls.length = 0;
+  replies = r;
+  process.env.MODEL_PROVIDER = "scripted";
+}
+
+afterEach(() => {
+  delete process.env.MODEL_PROVIDER;
+  delete process.env.MODEL_MAX_REPAIRS;
+  delete process.env.MODEL_STRUCTURED_OUTPUT;
+});
+
+const session = (): AgentSession => ({ ...defaultSession("test"), state: "S1_CAPTURE" });
+
+const BAD = '```json\n{ "questions": "What year?" }\n```';
+const GOOD = '{ "questions": ["What year?"] }';
+
+test("parseModelOutput: fenced JSON validates; schema and syntax failures become attempts", () => {
+  assert.deepEqual(parseModelOutput(`Sure!\n${GOOD}\nDone.`), { data: { questions: ["What year?"] } });
+
+  const bad = parseModelOutput(BAD);
+  assert.ok("attempt" in bad);
+  assert.equal(bad.attempt.error, "Model JSON did not match schema");
+  assert.equal(bad.attempt.issues?.[0], "questions: Invalid input: expected array, received string");
+  assert.equal(bad.attempt.raw, BAD);
+
+  const none = parseModelOutput("I could not do that.");
+  assert.ok("attempt" in none);
+  assert.equal(none.attempt.error, "No JSON object found in model output");
+});
+
+test("a rejected reply is sent back with its issues, and the repaired reply is used", async () => {
+  script(BAD, GOOD);
+  const { data, diagnostic } = await completeStructured(session(), "PROMPT", "hi");
+
+  assert.deepEqual(data, { questions: ["What year?"] });
+  assert.equal(calls.length, 2);
+  assert.ok(calls[1].prompt.startsWith("PROMPT\n"));
+  assert.match(calls[1].prompt, /- questions: Invalid input: expected array, received string/);
+  assert.ok(calls[1].prompt.includes(BAD));
+
+  assert.equal(diagnostic?.outcome, "repaired");
+  assert.equal(diagnostic?.provider, "scripted");
+  assert.equal(diagnostic?.model, "script-1");
+  assert.equal(diagnostic?.state, "S1_CAPTURE");
+  assert.equal(diagnostic?.attempts.length, 1);
+});
+
+test("a first-try success records no diagnostic", async () => {
+  script(GOOD);
+  const { data, diagnostic } = await completeStructured(session(), "PROMPT", "hi");
+  assert.ok(data);
+  assert.equal(diagnostic, undefined);
+});
+
+test("gives up after MODEL_MAX_REPAIRS repairs", async () => {
+  script(BAD, BAD, BAD, GOOD);
+  process.env.MODEL_MAX_REPAIRS = "1";
+  const { data, diagnostic } = await completeStructured(session(), "PROMPT", "hi");
+
+  assert.equal(data, undefined);
+  assert.equal(calls.length, 2);
+  assert.equal(diagnostic?.outcome, "failed");
+  assert.equal(diagnostic?.attempts.length, 2);
+});
+
+test("backend errors are recorded but not retried", async () => {
+  script(new Error("connect ECONNREFUSED"), GOOD);
+  const { data, diagnostic } = await completeStructured(session(), "PROMPT", "hi");
+
+  assert.equal(data, undefined);
+  assert.equal(calls.length, 1);
+  assert.deepEqual(diagnostic?.attempts, [{ error: "connect ECONNREFUSED" }]);
+  assert.equal(diagnostic?.provider, "scripted");
+});
+
+test("the JSON schema derived from ModelResponseSchema is sent unless structured output is off", async () => {
+  script(GOOD);
+  await completeStructured(session(), "PROMPT", "hi");
+  const sent = calls[0].jsonSchema;
+  assert.equal(sent?.name, "model_response");
+  assert.equal(sent?.schema.type, "object");
+  assert.equal(sent?.schema.$schema, undefined);
+  assert.ok("patch" in (sent?.schema.properties as object));
+
+  script(GOOD);
+  process.env.MODEL_STRUCTURED_OUTPUT = "off";
+  const { diagnostic } = await completeStructured(session(), "PROMPT", "hi");
+  assert.equal(calls[0].jsonSchema, undefined);
+  assert.equal(diagnostic, undefined);
+});
+
+test("diagnostics on the session are capped to the most recent 20", () => {
+  let s = session();
+  const d = (at: number): ModelDiagnostic => ({
+    at,
+    state: "S1_CAPTURE",
+    provider: "scripted",
+    model: "script-1",
+    structured: true,
+    attempts: [],
+    outcome: "failed",
+  });
+  for (let i = 0; i < 25; i++) s = recordModelDiagnostic(s, d(i));
+
+  assert.equal(s.model_diagnostics?.length, 20);
+  assert.equal(s.model_diagnostics?.[0].at, 5);
+  assert.equal(s.model_diagnostics?.[19].at, 24);
+});
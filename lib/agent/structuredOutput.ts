@@ -0,0 +1,179 @@
+import { z } from "zod";
+import { completeModel, modelForState, resolveModelProvider } from "./model";
+import type { ModelCall } from "./modelProvider";
+import { ModelResponseSchema, type ModelResponse } from "./modelSchema";
+import type { AgentSession, ModelAttempt, ModelDiagnostic } from "./schema";
+
+/**
+ * Model output -> validated ModelResponse, with a bounded repair loop:
+ * a rejected reply goes back to the model with its zod issues until it
+ * validates or MODEL_MAX_REPAIRS runs out. Calls that needed a repair or
+ * failed outright land in session.model_diagnostics.
+ */
+
+const DEFAULT_MAX_REPAIRS = 2;
+const MAX_DIAGNOSTICS = 20;
+const MAX_RAW_CHARS = 2000;
+const MAX_ISSUES = 12;
+
+let cachedJsonSchema: ModelCall["jsonSchema"] | null | undefined;
+
+/**
+ * JSON Schema of what the model may send (zod input side). Preprocessed
+ * fields become unconstrained. undefined if the schema cannot be converted
+ * (the failure is cached, so it is logged once).
+ */
+export function modelResponseJsonSchema(): ModelCall["jsonSchema"] | undefined {
+  if (cachedJsonSchema === undefined) {
+    try {
+      const schema: Record<string, unknown> = z.toJSONSchema(ModelResponseSchema, { io: "input", unrepresentable: "any" });
+      delete schema.$schema; // some backends reject the meta-schema key
+      cachedJsonSchema = { name: "model_response", schema };
+    } catch (e) {
+      console.error("ModelResponseSchema has no JSON Schema form; using prompt-only JSON:", e);
+      cachedJsonSchema = null;
+    }
+  }
+  return cachedJsonSchema ?? undefined;
+}
+
+export function maxRepairs(): number {
+  const n = Number(process.env.MODEL_MAX_REPAIRS);
+  return Number.isInteger(n) && n >= 0 ? Math.min(n, 5) : DEFAULT_MAX_REPAIRS;
+}
+
+export function extractJsonObject(text: string): string {
+  const start = text.indexOf("{");
+  if (start === -1) throw new Error("No JSON object found in model output");
+
+  let depth = 0;
+  let inString = false;
+  let escape = false;
+
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inString) {
+      if (escape) escape = false;
+      else if (ch === "\\") escape = true;
+      else if (ch === '"') inString = false;
+      continue;
+    } else {
+      if (ch === '"') {
+        inString = true;
+        continue;
+      }
+      if (ch === "{") depth++;
+      if (ch === "}") depth--;
+      if (depth === 0) {
+        return text.slice(start, i + 1);
+      }
+    }
+  }
+
+  throw new Error("Unterminated JSON object in model output");
+}
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.slice(0, MAX_ISSUES).map((i) => `${i.path.length ? i.path.join(".") : "(root)"}: ${i.message}`);
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_RAW_CHARS ? `${text.slice(0, MAX_RAW_CHARS)}…` : text;
+}
+
+/** Validate one raw reply; on failure, the rejected attempt. */
+export function parseModelOutput(raw: string): { data: ModelResponse } | { attempt: ModelAttempt } {
+  let json: unknown;
+  try {
+    json = JSON.parse(extractJsonObject(raw));
+  } catch (e) {
+    return { attempt: { error: e instanceof Error ? e.message : String(e), raw: truncate(raw) } };
+  }
+
+  const parsed = ModelResponseSchema.safeParse(json);
+  if (!parsed.success) {
+    return { attempt: { error: "Model JSON did not match schema", issues: formatIssues(parsed.error), raw: truncate(raw) } };
+  }
+  return { data: parsed.data };
+}
+
+function repairPrompt(prompt: string, attempt: ModelAttempt): string {
+  return [
+    prompt,
+    "",
+    "REPAIR: your previous reply was rejected.",
+    `Error: ${attempt.error}`,
+    ...(attempt.issues?.length ? ["Issues:", ...attempt.issues.map((i) => `- ${i}`)] : []),
+    "Previous reply:",
+    attempt.raw ?? "",
+    "",
+    "Return ONLY the corrected JSON object. Keep the fields that were valid; fix or drop the ones listed above.",
+  ].join("\n");
+}
+
+/**
+ * Call the model and validate its reply, repairing up to maxRepairs() times.
+ * Never throws: data is undefined when no attempt validated (or the backend
+ * errored), and diagnostic is set whenever any attempt was rejected.
+ */
+export async function completeStructured(
+  session: AgentSession,
+  prompt: string,
+  userMessage: string
+): Promise<{ data?: ModelResponse; diagnostic?: ModelDiagnostic }> {
+  const jsonSchema = modelResponseJsonSchema();
+  const attempts: ModelAttempt[] = [];
+  let meta = callMeta(session);
+  let current = prompt;
+
+  for (let i = 0; i <= maxRepairs(); i++) {
+    let raw: string;
+    try {
+      const res = await completeModel(session, current, userMessage, jsonSchema);
+      meta = { provider: res.provider, model: res.model, structured: res.structured };
+      raw = res.text;
+    } catch (e) {
+      // Transport/config errors are not repairable
+      attempts.push({ error: e instanceof Error ? e.message : String(e) });
+      break;
+    }
+
+    const result = parseModelOutput(raw);
+    if ("data" in result) {
+      return {
+        data: result.data,
+        diagnostic: attempts.length ? diagnostic(session, meta, attempts, "repaired") : undefined,
+      };
+    }
+
+    console.error("Model output rejected:", result.attempt.error, result.attempt.issues ?? []);
+    attempts.push(result.attempt);
+    current = repairPrompt(prompt, result.attempt);
+  }
+
+  return { diagnostic: diagnostic(session, meta, attempts, "failed") };
+}
+
+// Best-effort labels for a call that never returned
+function callMeta(session: AgentSession): { provider: string; model: string; structured: boolean } {
+  try {
+    const provider = resolveModelProvider();
+    return { provider: provider.id, model: modelForState(session.state, provider), structured: false };
+  } catch {
+    return { provider: process.env.MODEL_PROVIDER ?? "", model: "", structured: false };
+  }
+}
+
+function diagnostic(
+  session: AgentSession,
+  meta: { provider: string; model: string; structured: boolean },
+  attempts: ModelAttempt[],
+  outcome: ModelDiagnostic["outcome"]
+): ModelDiagnostic {
+  return { at: Date.now(), state: session.state, ...meta, attempts, outcome };
+}
+
+export function recordModelDiagnostic(session: AgentSession, d: ModelDiagnostic): AgentSession {
+  return { ...session, model_diagnostics: [...(session.model_diagnostics ?? []), d].slice(-MAX_DIAGNOSTICS) };
+}
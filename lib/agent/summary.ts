@@ -0,0 +1,39 @@
+import type { AgentSession, CloseSummary, ExploreRunSnapshot } from "./schema";
+import { computeCanonicalBoundary } from "./normalize";
+
+/**
+ * Append a snapshot of the Explore run that just finished (after decide()).
+ */
+export function recordExploreRun(session: AgentSession, at = Date.now()): AgentSession {
+  const run: ExploreRunSnapshot = {
+    at,
+    boundary: structuredClone(session.constraints),
+    finalists: session.finalists,
+    discovery: session.discovery,
+    stats: session.explore_stats,
+    decision: session.decision?.action,
+  };
+  return { ...session, explore_runs: [...(session.explore_runs ?? []), run] };
+}
+
+/**
+ * S7 summary artifact. Built once when the session closes; later turns in S7
+ * reuse it so closedAt stays the moment of closing.
+ */
+export function buildCloseSummary(session: AgentSession, at = Date.now()): CloseSummary {
+  const { hard_rejections } = computeCanonicalBoundary(session);
+
+  return {
+    sessionId: session.id,
+    closedAt: at,
+    vehicle: session.intent.vehicle ?? {},
+    budget: session.intent.budget,
+    boundary: { ...structuredClone(session.constraints), hard_rejections },
+    decision: session.decision,
+    selected: session.decision?.selected,
+    watch: session.watch,
+    timeline: session.event_log ?? [],
+    explore_runs: session.explore_runs ?? [],
+    iterations: session.iterations?.length ?? 0,
+  };
+}
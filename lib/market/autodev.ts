@@ -1,5 +1,34 @@
 // lib/market/autodev.ts
-export type AutoDevListing = any;
+import type { ListingProvider, ListingSearchParams } from "./listingProvider";
+import { listingToSignals } from "./normalizeCandidate";
+import { withReplay } from "./replay";
+
+// Subset of the Auto.dev listing payload we actually read.
+// Every field is optional: the provider omits freely and types loosely.
+export type AutoDevListing = {
+  "@id"?: string;
+  vin?: string;
+  vehicle?: {
+    vin?: string;
+    year?: number | string;
+    make?: string;
+    model?: string;
+    trim?: string;
+    series?: string;
+    engine?: string;
+    transmission?: string;
+    exteriorColor?: string;
+  };
+  retailListing?: {
+    price?: number | string;
+    miles?: number | string;
+    city?: string;
+    state?: string;
+    dealer?: string;
+    vdp?: string;
+    primaryImage?: string;
+  };
+};
 
 export type AutoDevSearchParams = {
   year?: string;          // "2003-2004"
@@ -37,12 +66,16 @@ function buildQuery(p: AutoDevSearchParams) {
 }
 
 export async function searchAutoDevListings(params: AutoDevSearchParams) {
+  const qs = buildQuery(params);
+  return withReplay("autodev", qs, () => fetchAutoDevListings(qs));
+}
+
+async function fetchAutoDevListings(qs: string) {
   const apiKey = process.env.AUTODEV_API_KEY;
   if (!apiKey) {
     throw new Error("Missing AUTODEV_API_KEY");
   }
 
-  const qs = buildQuery(params);
   const url = `https://api.auto.dev/listings?${qs}`;
 
   const res = await fetch(url, {
@@ -62,3 +95,42 @@ export async function searchAutoDevListings(params: AutoDevSearchParams) {
   // Expected: { data: [...] }
   return (json?.data ?? []) as AutoDevListing[];
 }
+
+/**
+ * Neutral params -> Auto.dev query params.
+ * Color and trim are intentionally NOT sent: provider values are unreliable,
+ * so they are judged in scoring against the full evidence instead.
+ */
+export function toAutoDevParams(p: ListingSearchParams): AutoDevSearchParams {
+  return {
+    page: p.page ?? 1,
+    limit: Math.min(100, Math.max(1, p.limit ?? 50)),
+    sort: p.sort,
+    year: p.yearMin && p.yearMax ? `${p.yearMin}-${p.yearMax}` : undefined,
+    make: p.make,
+    model: p.model,
+    transmission: p.transmission === "manual" ? "manual" : undefined,
+    price: p.priceMaxUsd ? `0-${p.priceMaxUsd}` : undefined,
+    miles: p.milesMax ? `0-${p.milesMax}` : undefined,
+    state: p.state,
+  };
+}
+
+export const autoDevProvider: ListingProvider = {
+  id: "autodev",
+  label: "Auto.dev",
+  capabilities: {
+    // Color and trim are not sent (judged in scoring instead)
+    colorFilter: false,
+    trimFilter: false,
+    transmissionFilter: true,
+    mileageFilter: true,
+    stateFilter: true,
+    pagination: true,
+    maxPageSize: 100,
+  },
+  async search(params) {
+    const listings = await searchAutoDevListings(toAutoDevParams(params));
+    return listings.map((l) => ({ ...listingToSignals(l), source: "autodev" }));
+  },
+};
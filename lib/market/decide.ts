@@ -1,7 +1,11 @@
 // lib/market/decide.ts
 
-import type { AgentSession, Candidate } from "@/lib/agent/schema";
+import type { AgentSession, Candidate, ConstraintEdit } from "@/lib/agent/schema";
 import { computeCanonicalBoundary } from "@/lib/agent/normalize";
+import { constraintTexts } from "@/lib/agent/constraints";
+import { currentEdits } from "@/lib/agent/iterate";
+import { analyzeRelaxations } from "./relaxation";
+import type { CandidateSignals } from "./normalizeCandidate";
 
 export type S4Decision =
   | {
@@ -14,11 +18,12 @@ export type S4Decision =
       rationale: string[];
       blockers: string[];
       watchSeedSummary: string[];
+      suggestedEdits: ConstraintEdit[];
     }
   | {
       action: "REVISE";
       rationale: string[];
-      suggestedEdits: string[];
+      suggestedEdits: ConstraintEdit[];
     };
 
 function topByScore(arr: Candidate[]): Candidate | undefined {
@@ -27,29 +32,101 @@ function topByScore(arr: Candidate[]): Candidate | undefined {
 }
 
 /**
- * v1 heuristic: surface unique “not confirmed” signals
+ * Unique Tier 1 checks the near-misses could not confirm (from candidate
+ * evidence), most common first.
  */
 function extractBlockers(candidates: Candidate[], max = 4): string[] {
-  const out: string[] = [];
-  const seen = new Set<string>();
+  const counts = new Map<string, number>();
 
   for (const c of candidates) {
-    const rs = Array.isArray(c.rationale) ? c.rationale : [];
-    for (const r of rs) {
-      const s = String(r || "").trim();
-      if (!s) continue;
-
-      if (s.toLowerCase().includes("not confirmed")) {
-        const key = s.toLowerCase();
-        if (!seen.has(key)) {
-          seen.add(key);
-          out.push(s);
-        }
-      }
-      if (out.length >= max) return out;
+    for (const e of c.evidence ?? []) {
+      if (e.gating && e.outcome === "unknown") counts.set(e.text, (counts.get(e.text) ?? 0) + 1);
     }
   }
-  return out;
+
+  // Stable sort: ties keep first-seen order
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, max)
+    .map(([text]) => text);
+}
+
+/**
+ * Deal quality of the pick, from its comparables valuation (see marketValue.ts).
+ */
+function dealLine(c: Candidate): string | undefined {
+  const m = c.market;
+  if (!m) return undefined;
+  const pct = Math.round(Math.abs(m.deltaPct) * 100);
+  if (pct < 3) return `Priced in line with comparable listings (est. $${m.expected.toLocaleString()})`;
+  if (m.deltaPct < 0) return `Priced ${pct}% below comparable listings (est. $${m.expected.toLocaleString()}) — a good deal`;
+  return `Priced ${pct}% above comparable listings — negotiate toward ~$${m.expected.toLocaleString()}`;
+}
+
+const STALE_DAYS = 45;
+
+function usdK(n: number) {
+  return n >= 1000 ? `$${Math.round(n / 100) / 10}k` : `$${n}`;
+}
+
+/**
+ * Negotiating leverage from our own sightings (see observationStore.ts).
+ */
+function historyLine(c: Candidate): string | undefined {
+  const h = c.history;
+  if (!h) return undefined;
+  if (h.priceDrop) {
+    return `${h.daysListed >= 1 ? `Listed ${h.daysListed} days, dropped` : "Dropped"} ${usdK(h.priceDrop)} — negotiable`;
+  }
+  if (h.daysListed >= STALE_DAYS) return `Listed ${h.daysListed} days without a price cut — negotiable`;
+  return undefined;
+}
+
+/**
+ * Cost of getting the pick home (see geo.ts); silent when it is local.
+ */
+function transportLine(c: Candidate): string | undefined {
+  const l = c.location;
+  if (!l?.transportUsd || l.distanceMi == null) return undefined;
+  const eff = l.effectivePrice != null ? ` (${usdK(l.effectivePrice)} all-in)` : "";
+  return `Budget ~${usdK(l.transportUsd)} to ship it ${l.distanceMi.toLocaleString()} mi from ${l.state}${eff}`;
+}
+
+/**
+ * How thorough was S3? A WATCH/REVISE call is only as strong as the search behind it.
+ */
+function searchDepthLine(session: AgentSession): string | undefined {
+  const st = session.explore_stats;
+  if (!st) return undefined;
+
+  const scanned = `Scanned ${st.pagesScanned} page${st.pagesScanned === 1 ? "" : "s"} (${st.listingsScanned} listings)`;
+  switch (st.stopReason) {
+    case "exhausted":
+      return st.exhaustive
+        ? `${scanned}; all available inventory was checked`
+        : `${scanned}; some providers failed, so coverage is partial`;
+    case "enough_finalists":
+      return `${scanned}; stopped once ${st.tier1Found} Tier 1 matches were found`;
+    case "listing_budget":
+      return `${scanned}; stopped at the listing budget, deeper inventory may exist`;
+    case "time_budget":
+      return `${scanned}; stopped at the time budget, deeper inventory may exist`;
+  }
+}
+
+function renderEdits(edits: ConstraintEdit[]) {
+  return edits.length
+    ? edits.map((e) => `${e.id}. ${e.label}${renderImpact(e)}`).join("\n")
+    : "- (no automatic relaxations; describe the change you want)";
+}
+
+function renderImpact(e: ConstraintEdit) {
+  const i = e.impact;
+  if (!i) return "";
+  const more = i.lowerBound ? "; more may exist beyond what was fetched" : "";
+  if (!i.unlocked) return ` — unlocks none of the fetched listings${more}`;
+  const best = i.best ? ` (best: ${i.best.title}, score ${i.best.score})` : "";
+  return ` — unlocks ${i.unlocked} listing${i.unlocked === 1 ? "" : "s"}${best}${more}`;
 }
 
 /**
@@ -66,12 +143,22 @@ function prettyBoundary(lines: string[]) {
   );
 }
 
-export function decide(session: AgentSession): { decision: S4Decision; message: string } {
+/**
+ * `pool` is the listings the Explore run just fetched. With it, suggested
+ * edits are ranked by counterfactual re-scoring; without it (re-rendering an
+ * earlier decision) the stored suggestions are reused.
+ */
+export function decide(
+  session: AgentSession,
+  opts: { pool?: CandidateSignals[] } = {}
+): { decision: S4Decision; message: string } {
   const finalists = session.finalists ?? [];
   const discovery = session.discovery ?? [];
 
   const canonical = computeCanonicalBoundary(session);
-  const tier1 = canonical.tier1 ?? [];
+  const tier1 = constraintTexts(canonical.tier1 ?? []);
+  const depth = searchDepthLine(session);
+  const edits = finalists.length ? [] : opts.pool ? analyzeRelaxations(session, opts.pool) : currentEdits(session);
 
   // ---- ACT ----
   if (finalists.length > 0) {
@@ -83,6 +170,9 @@ export function decide(session: AgentSession): { decision: S4Decision; message:
       rationale: [
         "At least one listing meets all Tier 1 constraints",
         "This is the strongest qualifying option available now",
+        ...(dealLine(best) ? [dealLine(best)!] : []),
+        ...(historyLine(best) ? [historyLine(best)!] : []),
+        ...(transportLine(best) ? [transportLine(best)!] : []),
       ],
     };
 
@@ -105,9 +195,11 @@ export function decide(session: AgentSession): { decision: S4Decision; message:
         "No listings meet all Tier 1 constraints",
         "Near-misses exist but fail confirmation",
         "Waiting preserves spec integrity",
+        ...(depth ? [depth] : []),
       ],
       blockers,
       watchSeedSummary: tier1,
+      suggestedEdits: edits,
     };
 
     const msg =
@@ -119,7 +211,9 @@ export function decide(session: AgentSession): { decision: S4Decision; message:
       `\n\nWhat’s missing right now:\n` +
       (blockers.length ? blockers.map((x) => `- ${x}`).join("\n") : "- (no explicit blockers captured)") +
       `\n\nClosest matches are shown above in Explore.\n\n` +
-      `Next: Create a watch (S5) or revise constraints if you want more supply.`;
+      `If you want more supply now, these edits would widen the search:\n` +
+      renderEdits(edits) +
+      `\n\nNext: Reply **watch** to create a watch (S5), or **revise** (e.g. "revise 1") to apply edits and re-run Explore (S6).`;
 
     return { decision, message: msg };
   }
@@ -130,13 +224,9 @@ export function decide(session: AgentSession): { decision: S4Decision; message:
     rationale: [
       "No listings meet Tier 1 constraints and no near-misses were found",
       "The specification may be unrealistically strict or the market is temporarily empty",
+      ...(depth ? [depth] : []),
     ],
-    suggestedEdits: [
-      "Relax one Tier 1 constraint",
-      "Increase budget ceiling",
-      "Broaden acceptable years or mileage",
-      "Expand search radius or allow shipping",
-    ],
+    suggestedEdits: edits,
   };
 
   const msg =
@@ -144,8 +234,8 @@ export function decide(session: AgentSession): { decision: S4Decision; message:
     `Why:\n` +
     decision.rationale.map((x) => `- ${x}`).join("\n") +
     `\n\nSuggested edits:\n` +
-    decision.suggestedEdits.map((x) => `- ${x}`).join("\n") +
-    `\n\nNext: Update constraints and re-run Explore (S3).`;
+    renderEdits(edits) +
+    `\n\nNext: Reply **revise** with the edits to apply (e.g. "revise 1 3"), or describe your own, and Explore re-runs (S6).`;
 
   return { decision, message: msg };
 }
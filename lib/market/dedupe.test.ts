@@ -0,0 +1,56 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { dedupeListings } from "./dedupe";
+import type { CandidateSignals } from "./normalizeCandidate";
+
+const car: CandidateSignals = {
+  year: 2004,
+  make: "Porsche",
+  model: "Boxster",
+  trim: "S",
+  price: 27900,
+  miles: 48000,
+  state: "TX",
+  url: "https://fixtures.local/listings/2",
+  source: "autodev",
+};
+
+test("same VIN across sources merges and records both sources", () => {
+  const out = dedupeListings([
+    { ...car, vin: "WP0CB29894U610022" },
+    { ...car, vin: "wp0cb29894u610022", url: "https://other.example/123", exteriorColor: "Speed Yellow", source: "marketcheck" },
+  ]);
+  assert.equal(out.length, 1);
+  assert.deepEqual(out[0].sources, ["autodev", "marketcheck"]);
+  // Gaps are filled from the later copy; existing evidence is kept.
+  assert.equal(out[0].exteriorColor, "Speed Yellow");
+  assert.equal(out[0].url, car.url);
+});
+
+test("different VINs never merge, even with identical fingerprints", () => {
+  const out = dedupeListings([
+    { ...car, vin: "WP0CB29894U610022" },
+    { ...car, vin: "WP0CB29884U610044", url: "https://other.example/1" },
+  ]);
+  assert.equal(out.length, 2);
+});
+
+test("fingerprint match: mileage and price within tolerance, no VIN", () => {
+  const out = dedupeListings([
+    car,
+    { ...car, url: "https://dealer.example/boxster", miles: 48150, price: 28500, source: "marketcheck" },
+  ]);
+  assert.equal(out.length, 1);
+  assert.deepEqual(out[0].sources, ["autodev", "marketcheck"]);
+});
+
+test("fingerprint rejects: mileage, price or state too far apart", () => {
+  const other = { ...car, url: "https://dealer.example/boxster", source: "marketcheck" };
+  assert.equal(dedupeListings([car, { ...other, miles: 48500 }]).length, 2);
+  assert.equal(dedupeListings([car, { ...other, price: 29500 }]).length, 2);
+  assert.equal(dedupeListings([car, { ...other, state: "OK" }]).length, 2);
+});
+
+test("listings with neither VIN nor URL are dropped", () => {
+  assert.deepEqual(dedupeListings([{ ...car, url: undefined }]), []);
+});
@@ -0,0 +1,80 @@
+// lib/market/dedupe.ts
+import type { CandidateSignals } from "./normalizeCandidate";
+
+/**
+ * Cross-source listing dedupe.
+ *
+ * Two listings are the same car when:
+ * - VINs match, or
+ * - URLs match, or
+ * - (no conflicting VINs) year/make/model agree, mileage is within tolerance,
+ *   price is within tolerance, and state (when both present) agrees.
+ *
+ * The fingerprint path catches dealer-site vs aggregator copies that carry
+ * different URLs and no VIN. Merging fills gaps from later copies but never
+ * overwrites evidence the first copy already had.
+ */
+
+const MILES_TOLERANCE = 250;
+const PRICE_TOLERANCE_PCT = 0.03;
+
+function norm(x?: string) {
+  return (x ?? "").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function within(a: number | undefined, b: number | undefined, tol: number) {
+  if (a == null || b == null) return false;
+  return Math.abs(a - b) <= tol;
+}
+
+function sameCar(a: CandidateSignals, b: CandidateSignals): boolean {
+  const vinA = norm(a.vin);
+  const vinB = norm(b.vin);
+  if (vinA && vinB) return vinA === vinB;
+
+  const urlA = norm(a.url);
+  const urlB = norm(b.url);
+  if (urlA && urlA === urlB) return true;
+
+  if (a.year == null || a.year !== b.year) return false;
+  if (!norm(a.make) || norm(a.make) !== norm(b.make)) return false;
+  if (!norm(a.model) || norm(a.model) !== norm(b.model)) return false;
+  if (a.state && b.state && norm(a.state) !== norm(b.state)) return false;
+
+  // Mileage is the strongest fingerprint; require it. Price drifts between
+  // sources (fees, stale feeds), so allow a small percentage band.
+  if (!within(a.miles, b.miles, MILES_TOLERANCE)) return false;
+  const priceTol = Math.max(a.price ?? 0, b.price ?? 0) * PRICE_TOLERANCE_PCT;
+  return within(a.price, b.price, priceTol);
+}
+
+function merge(keep: CandidateSignals, dup: CandidateSignals): CandidateSignals {
+  const out: CandidateSignals = { ...keep };
+  for (const k of Object.keys(dup) as (keyof CandidateSignals)[]) {
+    if (out[k] == null && dup[k] != null) {
+      (out as Record<string, unknown>)[k] = dup[k];
+    }
+  }
+
+  const sources = new Set([...(keep.sources ?? [keep.source]), ...(dup.sources ?? [dup.source])]);
+  out.sources = Array.from(sources).filter((x): x is string => Boolean(x));
+  return out;
+}
+
+export function dedupeListings(listings: CandidateSignals[]): CandidateSignals[] {
+  const out: CandidateSignals[] = [];
+
+  for (const l of listings) {
+    // Nothing to identify the car by
+    if (!l.vin && !l.url) continue;
+
+    const i = out.findIndex((x) => sameCar(x, l));
+    if (i === -1) {
+      out.push({ ...l, sources: l.sources ?? (l.source ? [l.source] : []) });
+    } else {
+      out[i] = merge(out[i], l);
+    }
+  }
+
+  return out;
+}
@@ -1,5 +1,8 @@
 // lib/market/exploreSeed.ts
-import type { AgentSession } from "@/lib/agent/schema";
+import type { AgentSession, ScoringProfile } from "@/lib/agent/schema";
+import { allConstraints } from "@/lib/agent/constraints";
+import { expandRegions, resolveHome, type HomeLocation } from "./geo";
+import { resolveScoringProfile } from "./scoringProfile";
 
 export type ExploreSeed = {
   make?: string;
@@ -7,9 +10,9 @@ export type ExploreSeed = {
   yearMin?: number;
   yearMax?: number;
   generation?: string;
-  trim?: string;
+  trims?: string[];  // acceptable trims; any one confirms ("in" keeps the whole list)
   transmission?: "manual" | "automatic" | "either";
-  exteriorColor?: string;
+  colors?: string[]; // acceptable exterior colors, lowercased; any one confirms
 
   // Constraints that are not provider-queryable in v1
   titleClean?: boolean;
@@ -20,6 +23,15 @@ export type ExploreSeed = {
   mileageOkMax?: number;
 
   budgetMaxUsd?: number;
+
+  // Geography (buyer's home + watch geography, expanded to state codes)
+  home?: HomeLocation;
+  statesInclude?: string[];
+  statesExclude?: string[];
+  statesDeprioritize?: string[];
+
+  // Weights and ACCEPT threshold (defaults to the balanced profile)
+  scoring?: ScoringProfile;
 };
 
 export function deriveExploreSeed(session: AgentSession): ExploreSeed {
@@ -28,60 +40,83 @@ export function deriveExploreSeed(session: AgentSession): ExploreSeed {
   // Start with structured intent if present
   seed.make = session.intent?.vehicle?.make || undefined;
   seed.model = session.intent?.vehicle?.model || undefined;
-  seed.trim = session.intent?.vehicle?.trim || undefined;
-
-  const all = [
-    ...(session.constraints?.tier1 ?? []),
-    ...(session.constraints?.tier2 ?? []),
-    ...(session.constraints?.tier3 ?? []),
-  ].join(" | ").toLowerCase();
-
-  // Year range e.g. "(2003-2004)" or "2003–2004"
-  const yr = all.match(/\b(19|20)\d{2}\s*[-–]\s*(19|20)\d{2}\b/);
-  if (yr) {
-    const parts = yr[0].split(/[-–]/).map((x) => parseInt(x.trim(), 10));
-    if (parts.length === 2 && Number.isFinite(parts[0]) && Number.isFinite(parts[1])) {
-      seed.yearMin = parts[0];
-      seed.yearMax = parts[1];
+  const intentTrim = session.intent?.vehicle?.trim;
+  if (intentTrim) seed.trims = [intentTrim];
+  seed.transmission = "either";
+
+  // Everything else comes from structured constraints (all tiers; scoring decides weight)
+  for (const c of allConstraints(session.constraints ?? { tier1: [], tier2: [], tier3: [] })) {
+    const v = c.value;
+    const str = typeof v === "string" ? v : Array.isArray(v) ? v[0] : undefined;
+    const list = typeof v === "string" ? [v] : Array.isArray(v) ? v.filter(Boolean) : [];
+    const num = typeof v === "number" ? v : undefined;
+
+    switch (c.attribute) {
+      case "make":
+        if (!seed.make && str) seed.make = str;
+        break;
+      case "model":
+        if (!seed.model && str) seed.model = str;
+        break;
+      case "trim":
+        if (!seed.trims && list.length && (c.operator === "eq" || c.operator === "in")) seed.trims = list;
+        break;
+      case "generation":
+        if (!seed.generation && str) seed.generation = str.toUpperCase();
+        break;
+      case "year":
+        if (c.operator === "between" && typeof v === "object" && !Array.isArray(v)) {
+          seed.yearMin = v.min;
+          seed.yearMax = v.max;
+        } else if (num != null && c.operator === "gte") {
+          seed.yearMin = num;
+        } else if (num != null && c.operator === "lte") {
+          seed.yearMax = num;
+        } else if (num != null && c.operator === "eq") {
+          seed.yearMin = num;
+          seed.yearMax = num;
+        }
+        break;
+      case "transmission":
+        if (str && c.operator === "eq") {
+          const t = str.toLowerCase();
+          if (t.includes("manual")) seed.transmission = "manual";
+          else if (seed.transmission !== "manual") seed.transmission = "automatic";
+        }
+        break;
+      case "exterior_color":
+        if (!seed.colors && list.length && (c.operator === "eq" || c.operator === "in")) {
+          seed.colors = list.map((x) => x.toLowerCase());
+        }
+        break;
+      case "title":
+        if (str?.toLowerCase() === "clean") seed.titleClean = true;
+        break;
+      case "history":
+        if (c.operator === "excludes" && /salt|rust/i.test(String(v))) seed.avoidSaltHistory = true;
+        break;
+      case "mileage":
+        if (num != null && c.operator === "lte") {
+          if (c.qualifier === "ideal") seed.mileageIdealMax = num;
+          else seed.mileageOkMax = Math.max(seed.mileageOkMax ?? 0, num);
+        }
+        break;
+      case "price":
+        if (num != null && c.operator === "lte" && !seed.budgetMaxUsd) seed.budgetMaxUsd = num;
+        break;
     }
   }
 
-  // Generation token e.g. 986.2, B8.5, E92 etc.
-  const gen = all.match(/\b\d{3}\.\d\b|\b[A-Z]\d{2,3}\b|\bB\d(\.\d)?\b/i);
-  if (gen) seed.generation = gen[0].toUpperCase();
-
-  // Transmission
-  if (all.includes("manual")) seed.transmission = "manual";
-  else if (all.includes("automatic") || all.includes("pdk") || all.includes("dsg")) seed.transmission = "automatic";
-  else seed.transmission = "either";
-
-  // Exterior color (strict phrases)
-  const color = all.match(/speed yellow|guards red|arctic silver|black|white|yellow|silver|blue/);
-  if (color) seed.exteriorColor = color[0];
-
-  // Clean title
-  if (all.includes("clean title")) seed.titleClean = true;
-
-  // Salt-road history avoidance (v1 heuristic)
-  if (all.includes("salt-road") || all.includes("salt road") || all.includes("northern") || all.includes("rust")) {
-    seed.avoidSaltHistory = true;
-  }
-
-  // Mileage preferences
-  // "under 50k ideal, under 80k acceptable"
-  const miIdeal = all.match(/under\s*(\d{2,3})k\s*ideal/);
-  if (miIdeal) seed.mileageIdealMax = parseInt(miIdeal[1], 10) * 1000;
-
-  const miOk = all.match(/under\s*(\d{2,3})k\s*acceptable/);
-  if (miOk) seed.mileageOkMax = parseInt(miOk[1], 10) * 1000;
-
-  // Budget (your earlier runs used intent.budget.max; keep flexible)
-  const budgetAny = (session.intent as any)?.budget?.max;
-  if (typeof budgetAny === "number") seed.budgetMaxUsd = budgetAny;
+  // intent.budget.max is authoritative over a budget phrased as a constraint
+  const budgetMax = session.intent?.budget?.max;
+  if (typeof budgetMax === "number") seed.budgetMaxUsd = budgetMax;
 
-  // Also parse explicit "max budget $30k"
-  const b2 = all.match(/\bmax budget\s*\$?\s*(\d{2,3})k\b/);
-  if (!seed.budgetMaxUsd && b2) seed.budgetMaxUsd = parseInt(b2[1], 10) * 1000;
+  seed.scoring = resolveScoringProfile(session);
+  seed.home = resolveHome(session.intent?.location);
+  const geo = session.watch?.geography;
+  if (geo?.include?.length) seed.statesInclude = expandRegions(geo.include);
+  if (geo?.exclude?.length) seed.statesExclude = expandRegions(geo.exclude);
+  if (geo?.deprioritize?.length) seed.statesDeprioritize = expandRegions(geo.deprioritize);
 
   return seed;
 }
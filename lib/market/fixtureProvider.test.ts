@@ -0,0 +1,54 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { fixtureProvider, loadFixtureInventory, searchFixtureInventory } from "./fixtureProvider";
+import { resolveProviders } from "./providers";
+
+test("inventory loads as normalized signals tagged with the fixture source", async () => {
+  const inv = await loadFixtureInventory();
+  assert.equal(inv.length, 10);
+  assert.ok(inv.every((s) => s.source === "fixture" && s.make === "Porsche"));
+});
+
+test("filters like the live adapters: model, years, manual, price, mileage, state", async () => {
+  const inv = await loadFixtureInventory();
+  const hits = searchFixtureInventory(inv, {
+    make: "porsche",
+    model: "boxster",
+    yearMin: 2003,
+    yearMax: 2004,
+    transmission: "manual",
+    priceMaxUsd: 30000,
+    milesMax: 65000,
+  });
+
+  // Out: the Base over the mileage cap, the Tiptronic, the 2005/2002 cars, the
+  // one with no transmission listed, the $31.5k car and the Cayman
+  assert.deepEqual(
+    hits.map((s) => s.url),
+    ["1", "2", "4", "9"].map((id) => `https://fixtures.local/listings/${id}`)
+  );
+
+  const ga = searchFixtureInventory(inv, { make: "Porsche", model: "Boxster", state: "ga" });
+  assert.deepEqual(ga.map((s) => s.state), ["GA"]);
+});
+
+test("sorts and pages", async () => {
+  const inv = await loadFixtureInventory();
+  const base = { make: "Porsche", model: "Boxster", sort: "price.asc" as const };
+
+  const all = searchFixtureInventory(inv, { ...base, limit: 100 });
+  assert.equal(all.length, 9);
+  assert.deepEqual(all.map((s) => s.price), [...all.map((s) => s.price!)].sort((a, b) => a - b));
+
+  const p1 = searchFixtureInventory(inv, { ...base, limit: 4, page: 1 });
+  const p3 = searchFixtureInventory(inv, { ...base, limit: 4, page: 3 });
+  assert.deepEqual(p1, all.slice(0, 4));
+  assert.deepEqual(p3, all.slice(8));
+  assert.deepEqual(searchFixtureInventory(inv, { ...base, limit: 4, page: 4 }), []);
+});
+
+test("is registered and selectable through LISTING_PROVIDERS", async () => {
+  assert.deepEqual(resolveProviders("fixture"), [fixtureProvider]);
+  const hits = await fixtureProvider.search({ make: "Porsche", model: "Cayman" });
+  assert.equal(hits.length, 1);
+});
@@ -0,0 +1,78 @@
+// lib/market/fixtureProvider.ts
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import type { AutoDevListing } from "./autodev";
+import type { ListingProvider, ListingSearchParams } from "./listingProvider";
+import { listingToSignals, type CandidateSignals } from "./normalizeCandidate";
+
+/**
+ * Local inventory for tests and offline work: a small recorded set of
+ * Auto.dev listing payloads (LISTING_FIXTURE_PATH, default
+ * fixtures/inventory.json), filtered and paged in memory the way the live
+ * adapters filter server-side. Enable with LISTING_PROVIDERS=fixture.
+ */
+
+type FixtureInventory = { description?: string; listings: AutoDevListing[] };
+
+function inventoryPath() {
+  return path.resolve(process.cwd(), process.env.LISTING_FIXTURE_PATH ?? "fixtures/inventory.json");
+}
+
+export async function loadFixtureInventory(file = inventoryPath()): Promise<CandidateSignals[]> {
+  let text: string;
+  try {
+    text = await readFile(file, "utf8");
+  } catch {
+    throw new Error(`No fixture inventory at ${file}`);
+  }
+  const inv = JSON.parse(text) as FixtureInventory;
+  return (inv.listings ?? []).map((l) => ({ ...listingToSignals(l), source: "fixture" }));
+}
+
+function sameWord(a: string | undefined, b: string) {
+  return !!a && a.toLowerCase() === b.toLowerCase();
+}
+
+function matches(s: CandidateSignals, p: ListingSearchParams): boolean {
+  if (!sameWord(s.make, p.make) || !sameWord(s.model, p.model)) return false;
+  if (p.yearMin && (s.year == null || s.year < p.yearMin)) return false;
+  if (p.yearMax && (s.year == null || s.year > p.yearMax)) return false;
+  if (p.transmission === "manual" && !/manual/i.test(s.transmission ?? "")) return false;
+  if (p.priceMaxUsd && (s.price == null || s.price > p.priceMaxUsd)) return false;
+  if (p.milesMax && (s.miles == null || s.miles > p.milesMax)) return false;
+  if (p.state && !sameWord(s.state, p.state)) return false;
+  return true;
+}
+
+const SORTS: Record<NonNullable<ListingSearchParams["sort"]>, (a: CandidateSignals, b: CandidateSignals) => number> = {
+  "price.asc": (a, b) => (a.price ?? Infinity) - (b.price ?? Infinity),
+  "mileage.asc": (a, b) => (a.miles ?? Infinity) - (b.miles ?? Infinity),
+  "year.desc": (a, b) => (b.year ?? -Infinity) - (a.year ?? -Infinity),
+};
+
+export function searchFixtureInventory(inventory: CandidateSignals[], p: ListingSearchParams): CandidateSignals[] {
+  const hits = inventory.filter((s) => matches(s, p));
+  if (p.sort) hits.sort(SORTS[p.sort]);
+
+  const limit = Math.min(100, Math.max(1, p.limit ?? 50));
+  const start = ((p.page ?? 1) - 1) * limit;
+  return hits.slice(start, start + limit);
+}
+
+export const fixtureProvider: ListingProvider = {
+  id: "fixture",
+  label: "Fixture inventory",
+  capabilities: {
+    // Color and trim are left to scoring
+    colorFilter: false,
+    trimFilter: false,
+    transmissionFilter: true,
+    mileageFilter: true,
+    stateFilter: true,
+    pagination: true,
+    maxPageSize: 100,
+  },
+  async search(params) {
+    return searchFixtureInventory(await loadFixtureInventory(), params);
+  },
+};
@@ -0,0 +1,43 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { estimateTransportUsd, expandRegions, resolveHome, stateCode, stateDistanceMiles, zipState } from "./geo";
+
+test("ZIP -> state by three-digit prefix, including the odd ones out", () => {
+  assert.equal(zipState("94110"), "CA");
+  assert.equal(zipState("02139"), "MA");
+  assert.equal(zipState("00501"), "NY"); // IRS Holtsville
+  assert.equal(zipState("20500"), "DC");
+  assert.equal(zipState("73301"), "TX"); // Austin IRS, inside the OK range
+  assert.equal(zipState("98101-1234"), "WA");
+  assert.equal(zipState("9410"), undefined);
+  assert.equal(zipState("00100"), undefined);
+});
+
+test("home resolves from ZIP first, then the state name or code", () => {
+  assert.deepEqual(resolveHome({ zip: " 43215 ", state: "California" }), { state: "OH", zip: "43215", label: "43215, OH" });
+  assert.deepEqual(resolveHome({ state: "new york" }), { state: "NY", zip: undefined, label: "NY" });
+  assert.equal(resolveHome({ state: "Ontario" }), undefined);
+  assert.equal(stateCode(" tx "), "TX");
+});
+
+test("regions expand to state codes; unknown entries are dropped", () => {
+  assert.deepEqual(expandRegions(["Northeast", "Florida", "Atlantis"]).sort(), [
+    "CT", "FL", "MA", "ME", "NH", "NJ", "NY", "PA", "RI", "VT",
+  ]);
+  assert.ok(expandRegions(["salt belt"]).includes("MI"));
+});
+
+test("distance is zero within a state and roughly road miles across the country", () => {
+  assert.equal(stateDistanceMiles("CA", "CA"), 0);
+  assert.equal(stateDistanceMiles("CA", "ZZ"), undefined);
+  const coast = stateDistanceMiles("CA", "NY")!;
+  assert.ok(coast > 2500 && coast < 3500, String(coast));
+});
+
+test("transport is free locally, has a floor, and gets cheaper per mile with distance", () => {
+  assert.equal(estimateTransportUsd(100), 0);
+  assert.equal(estimateTransportUsd(200), 450);
+  assert.equal(estimateTransportUsd(1000), 750);
+  assert.equal(estimateTransportUsd(1234), 950); // rounded to $50
+  assert.equal(estimateTransportUsd(2000), 1200);
+});
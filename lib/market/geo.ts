@@ -0,0 +1,228 @@
+// lib/market/geo.ts
+import type { Intent } from "@/lib/agent/schema";
+
+/**
+ * Offline US geography (no geocoding service).
+ *
+ * - Resolution is the state: a home ZIP maps to its state by 3-digit prefix,
+ *   and distance is between approximate state population centers. Good enough
+ *   to tell "drive to it" from "ship it across the country", no finer.
+ * - Transport is a rough open-carrier estimate, added to the asking price to
+ *   get an effective price for budget checks.
+ * - Regions (census regions, "salt belt") expand to state lists so watch
+ *   geography can say "exclude the northeast".
+ */
+
+type Point = { lat: number; lon: number };
+
+const STATES: Record<string, { name: string } & Point> = {
+  AL: { name: "Alabama", lat: 32.8, lon: -86.8 },
+  AK: { name: "Alaska", lat: 61.2, lon: -149.9 },
+  AZ: { name: "Arizona", lat: 33.5, lon: -112.0 },
+  AR: { name: "Arkansas", lat: 34.8, lon: -92.3 },
+  CA: { name: "California", lat: 35.5, lon: -119.4 },
+  CO: { name: "Colorado", lat: 39.6, lon: -105.0 },
+  CT: { name: "Connecticut", lat: 41.6, lon: -72.7 },
+  DE: { name: "Delaware", lat: 39.3, lon: -75.5 },
+  DC: { name: "District of Columbia", lat: 38.9, lon: -77.0 },
+  FL: { name: "Florida", lat: 27.8, lon: -81.6 },
+  GA: { name: "Georgia", lat: 33.3, lon: -83.9 },
+  HI: { name: "Hawaii", lat: 21.3, lon: -157.8 },
+  ID: { name: "Idaho", lat: 43.6, lon: -115.9 },
+  IL: { name: "Illinois", lat: 41.3, lon: -88.4 },
+  IN: { name: "Indiana", lat: 39.9, lon: -86.3 },
+  IA: { name: "Iowa", lat: 41.9, lon: -93.4 },
+  KS: { name: "Kansas", lat: 38.5, lon: -97.0 },
+  KY: { name: "Kentucky", lat: 37.8, lon: -85.3 },
+  LA: { name: "Louisiana", lat: 30.7, lon: -91.5 },
+  ME: { name: "Maine", lat: 44.3, lon: -69.8 },
+  MD: { name: "Maryland", lat: 39.1, lon: -76.8 },
+  MA: { name: "Massachusetts", lat: 42.3, lon: -71.4 },
+  MI: { name: "Michigan", lat: 42.9, lon: -84.2 },
+  MN: { name: "Minnesota", lat: 45.2, lon: -93.6 },
+  MS: { name: "Mississippi", lat: 32.6, lon: -89.7 },
+  MO: { name: "Missouri", lat: 38.4, lon: -92.2 },
+  MT: { name: "Montana", lat: 46.3, lon: -110.5 },
+  NE: { name: "Nebraska", lat: 41.0, lon: -97.4 },
+  NV: { name: "Nevada", lat: 36.5, lon: -115.5 },
+  NH: { name: "New Hampshire", lat: 43.0, lon: -71.5 },
+  NJ: { name: "New Jersey", lat: 40.4, lon: -74.4 },
+  NM: { name: "New Mexico", lat: 34.6, lon: -106.3 },
+  NY: { name: "New York", lat: 41.5, lon: -74.6 },
+  NC: { name: "North Carolina", lat: 35.5, lon: -79.6 },
+  ND: { name: "North Dakota", lat: 47.4, lon: -99.2 },
+  OH: { name: "Ohio", lat: 40.5, lon: -82.7 },
+  OK: { name: "Oklahoma", lat: 35.6, lon: -96.8 },
+  OR: { name: "Oregon", lat: 44.7, lon: -122.6 },
+  PA: { name: "Pennsylvania", lat: 40.5, lon: -77.0 },
+  RI: { name: "Rhode Island", lat: 41.8, lon: -71.4 },
+  SC: { name: "South Carolina", lat: 34.0, lon: -81.0 },
+  SD: { name: "South Dakota", lat: 43.9, lon: -98.2 },
+  TN: { name: "Tennessee", lat: 35.8, lon: -86.4 },
+  TX: { name: "Texas", lat: 30.9, lon: -97.4 },
+  UT: { name: "Utah", lat: 40.5, lon: -111.9 },
+  VT: { name: "Vermont", lat: 44.1, lon: -72.8 },
+  VA: { name: "Virginia", lat: 38.0, lon: -77.8 },
+  WA: { name: "Washington", lat: 47.3, lon: -121.6 },
+  WV: { name: "West Virginia", lat: 38.7, lon: -80.8 },
+  WI: { name: "Wisconsin", lat: 43.7, lon: -89.0 },
+  WY: { name: "Wyoming", lat: 42.5, lon: -106.8 },
+};
+
+// ZIP3 prefix ranges, inclusive; first match wins (exceptions come first)
+const ZIP3: [number, number, string][] = [
+  [5, 5, "NY"],
+  [569, 569, "DC"],
+  [733, 733, "TX"],
+  [885, 885, "TX"],
+  [10, 27, "MA"],
+  [28, 29, "RI"],
+  [30, 38, "NH"],
+  [39, 49, "ME"],
+  [50, 59, "VT"],
+  [60, 69, "CT"],
+  [70, 89, "NJ"],
+  [100, 149, "NY"],
+  [150, 196, "PA"],
+  [197, 199, "DE"],
+  [200, 200, "DC"],
+  [201, 201, "VA"],
+  [202, 205, "DC"],
+  [206, 219, "MD"],
+  [220, 246, "VA"],
+  [247, 268, "WV"],
+  [270, 289, "NC"],
+  [290, 299, "SC"],
+  [300, 319, "GA"],
+  [320, 349, "FL"],
+  [350, 369, "AL"],
+  [370, 385, "TN"],
+  [386, 397, "MS"],
+  [398, 399, "GA"],
+  [400, 427, "KY"],
+  [430, 459, "OH"],
+  [460, 479, "IN"],
+  [480, 499, "MI"],
+  [500, 528, "IA"],
+  [530, 549, "WI"],
+  [550, 567, "MN"],
+  [570, 577, "SD"],
+  [580, 588, "ND"],
+  [590, 599, "MT"],
+  [600, 629, "IL"],
+  [630, 658, "MO"],
+  [660, 679, "KS"],
+  [680, 693, "NE"],
+  [700, 714, "LA"],
+  [716, 729, "AR"],
+  [730, 749, "OK"],
+  [750, 799, "TX"],
+  [800, 816, "CO"],
+  [820, 831, "WY"],
+  [832, 838, "ID"],
+  [840, 847, "UT"],
+  [850, 865, "AZ"],
+  [870, 884, "NM"],
+  [889, 898, "NV"],
+  [900, 961, "CA"],
+  [967, 968, "HI"],
+  [970, 979, "OR"],
+  [980, 994, "WA"],
+  [995, 999, "AK"],
+];
+
+// Northern states that salt roads heavily in winter
+const SALT_BELT = new Set([
+  "CT", "DC", "DE", "IA", "IL", "IN", "KY", "MA", "MD", "ME", "MI",
+  "MN", "MO", "NH", "NJ", "NY", "OH", "PA", "RI", "VT", "WI", "WV",
+]);
+
+const REGIONS: Record<string, string[]> = {
+  northeast: ["CT", "MA", "ME", "NH", "NJ", "NY", "PA", "RI", "VT"],
+  midwest: ["IA", "IL", "IN", "KS", "MI", "MN", "MO", "ND", "NE", "OH", "SD", "WI"],
+  south: ["AL", "AR", "DC", "DE", "FL", "GA", "KY", "LA", "MD", "MS", "NC", "OK", "SC", "TN", "TX", "VA", "WV"],
+  west: ["AK", "AZ", "CA", "CO", "HI", "ID", "MT", "NM", "NV", "OR", "UT", "WA", "WY"],
+  "salt belt": [...SALT_BELT],
+  "rust belt": [...SALT_BELT],
+};
+
+const ROAD_FACTOR = 1.2; // great-circle -> road miles
+const LOCAL_MILES = 150; // close enough to drive and pick up: no transport
+const MIN_TRANSPORT_USD = 450;
+
+export type HomeLocation = { state: string; zip?: string; label: string };
+
+/**
+ * "OH", "ohio" -> "OH". Undefined for anything else.
+ */
+export function stateCode(x?: string): string | undefined {
+  const t = (x ?? "").trim();
+  if (!t) return undefined;
+  const up = t.toUpperCase();
+  if (STATES[up]) return up;
+  const lower = t.toLowerCase();
+  return Object.keys(STATES).find((k) => STATES[k].name.toLowerCase() === lower);
+}
+
+export function zipState(zip: string): string | undefined {
+  const m = /^(\d{3})\d{2}(?:-\d{4})?$/.exec(zip.trim());
+  if (!m) return undefined;
+  const p = Number(m[1]);
+  return ZIP3.find(([lo, hi]) => p >= lo && p <= hi)?.[2];
+}
+
+export function resolveHome(loc?: Intent["location"]): HomeLocation | undefined {
+  if (!loc) return undefined;
+  const fromZip = loc.zip ? zipState(loc.zip) : undefined;
+  const state = fromZip ?? stateCode(loc.state);
+  if (!state) return undefined;
+  return { state, zip: fromZip ? loc.zip!.trim() : undefined, label: fromZip ? `${loc.zip!.trim()}, ${state}` : state };
+}
+
+/**
+ * Watch geography entries (state codes, state names, region names) -> state
+ * codes. Entries we cannot place are dropped rather than guessed.
+ */
+export function expandRegions(entries?: string[]): string[] {
+  const out = new Set<string>();
+  for (const e of entries ?? []) {
+    const region = REGIONS[e.trim().toLowerCase()];
+    if (region) region.forEach((s) => out.add(s));
+    else {
+      const s = stateCode(e);
+      if (s) out.add(s);
+    }
+  }
+  return [...out];
+}
+
+export function isSaltBelt(state: string): boolean {
+  return SALT_BELT.has(state);
+}
+
+function haversineMiles(a: Point, b: Point): number {
+  const rad = (d: number) => (d * Math.PI) / 180;
+  const dLat = rad(b.lat - a.lat);
+  const dLon = rad(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * 3958.8 * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Approximate road miles between two states; 0 within a state.
+ */
+export function stateDistanceMiles(from: string, to: string): number | undefined {
+  const a = STATES[from];
+  const b = STATES[to];
+  if (!a || !b) return undefined;
+  return from === to ? 0 : Math.round(haversineMiles(a, b) * ROAD_FACTOR);
+}
+
+/**
+ * Open-carrier estimate: per-mile rate falls with distance, rounded to $50.
+ */
+export function estimateTransportUsd(miles: number): number {
+  if (miles < LOCAL_MILES) return 0;
+  const rate = miles <= 500 ? 1.0 : miles <= 1500 ? 0.75 : 0.6;
+  return Math.round(Math.max(MIN_TRANSPORT_USD, miles * rate) / 50) * 50;
+}
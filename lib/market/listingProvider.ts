@@ -0,0 +1,61 @@
+// lib/market/listingProvider.ts
+import type { CandidateSignals } from "./normalizeCandidate";
+
+/**
+ * Provider-neutral search parameters.
+ * Adapters translate these into their own query format and silently drop
+ * anything their capabilities say they cannot filter on.
+ */
+export type ListingSearchParams = {
+  make: string;
+  model: string;
+  yearMin?: number;
+  yearMax?: number;
+  trim?: string;
+  transmission?: "manual" | "automatic";
+  exteriorColor?: string;
+  priceMaxUsd?: number;
+  milesMax?: number;
+  state?: string;
+  page?: number;   // 1-based
+  limit?: number;
+  sort?: "price.asc" | "mileage.asc" | "year.desc";
+};
+
+export type ListingProviderCapabilities = {
+  colorFilter: boolean;
+  trimFilter: boolean;
+  transmissionFilter: boolean;
+  mileageFilter: boolean;
+  stateFilter: boolean;
+  pagination: boolean;
+  maxPageSize: number;
+};
+
+/**
+ * Listing provider contract (v1):
+ * - search() returns normalized signals, never raw provider payloads.
+ * - Adapters own their auth/config and throw on transport errors;
+ *   the caller decides whether a failure is fatal.
+ */
+export type ListingProvider = {
+  id: string;     // stable key, e.g. "autodev"
+  label: string;  // user-facing name, e.g. "Auto.dev"
+  capabilities: ListingProviderCapabilities;
+  timeoutMs?: number; // overrides LIVE_SEARCH_TIMEOUT_MS for this provider
+  search(params: ListingSearchParams): Promise<CandidateSignals[]>;
+};
+
+const registry = new Map<string, ListingProvider>();
+
+export function registerProvider(provider: ListingProvider): void {
+  registry.set(provider.id, provider);
+}
+
+export function getProvider(id: string): ListingProvider | undefined {
+  return registry.get(id);
+}
+
+export function listProviders(): ListingProvider[] {
+  return Array.from(registry.values());
+}
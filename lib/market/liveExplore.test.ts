@@ -0,0 +1,112 @@
+import { after, afterEach, beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { AgentSession } from "@/lib/agent/schema";
+import { coerceConstraints } from "@/lib/agent/constraints";
+import { registerProvider } from "./listingProvider";
+import { fixtureProvider } from "./fixtureProvider";
+import { runLiveExplore } from "./liveExplore";
+
+const ENV = ["LISTING_PROVIDERS", "LISTING_REPLAY", "LIVE_SEARCH_TOPN", "LIVE_SEARCH_MIN_TIER1", "LIVE_SEARCH_MAX_LISTINGS"];
+
+const dir = mkdtempSync(path.join(tmpdir(), "explore-"));
+process.env.LISTING_HISTORY_PATH = path.join(dir, "listings.json");
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+  delete process.env.LISTING_HISTORY_PATH;
+});
+
+beforeEach(() => {
+  process.env.LISTING_PROVIDERS = "fixture";
+  process.env.LIVE_SEARCH_TOPN = "2";
+});
+
+afterEach(() => {
+  for (const k of ENV) delete process.env[k];
+});
+
+registerProvider({
+  ...fixtureProvider,
+  id: "broken",
+  label: "Broken",
+  async search() {
+    throw new Error("upstream 503");
+  },
+});
+
+const session = (): AgentSession =>
+  ({
+    id: "t",
+    state: "S3_EXPLORE",
+    goal_type: "buy",
+    intent: { vehicle: { make: "Porsche", model: "Boxster" } },
+    constraints: { tier1: coerceConstraints(["2003-2004", "manual", "color: speed yellow"], 1), tier2: [], tier3: [] },
+    taste: {},
+    finalists: [],
+    discovery: [],
+  }) as unknown as AgentSession;
+
+test("stops paging once enough Tier 1 matches are found", async () => {
+  process.env.LIVE_SEARCH_MIN_TIER1 = "3";
+  const { session: next, meta } = await runLiveExplore(session());
+
+  // Six manual 2003-2004 Boxsters in the inventory, two per page.
+  assert.equal(meta.stats.stopReason, "enough_finalists");
+  assert.equal(meta.stats.pagesScanned, 3);
+  assert.equal(meta.stats.listingsScanned, 6);
+  assert.equal(meta.stats.exhaustive, false);
+  assert.deepEqual(next.explore_stats, meta.stats);
+  assert.ok(next.finalists.length >= 3);
+});
+
+test("keeps paging until the provider runs dry when Tier 1 supply is scarce", async () => {
+  process.env.LIVE_SEARCH_MIN_TIER1 = "9";
+  const { meta } = await runLiveExplore(session());
+
+  assert.equal(meta.stats.stopReason, "exhausted");
+  assert.equal(meta.stats.exhaustive, true);
+  assert.deepEqual(meta.stats.providerPages, { fixture: 4 });
+});
+
+test("stops at the listing budget", async () => {
+  process.env.LIVE_SEARCH_MIN_TIER1 = "9";
+  process.env.LIVE_SEARCH_MAX_LISTINGS = "3";
+  const { meta } = await runLiveExplore(session());
+
+  assert.equal(meta.stats.stopReason, "listing_budget");
+  assert.equal(meta.stats.listingsScanned, 4);
+});
+
+test("a failing provider makes coverage partial but does not sink the run", async () => {
+  process.env.LISTING_PROVIDERS = "fixture,broken";
+  process.env.LIVE_SEARCH_MIN_TIER1 = "9";
+  const { meta } = await runLiveExplore(session());
+
+  assert.equal(meta.stats.stopReason, "exhausted");
+  assert.equal(meta.stats.exhaustive, false);
+  assert.equal(meta.providers.find((p) => p.id === "broken")?.error, "upstream 503");
+
+  process.env.LISTING_PROVIDERS = "broken";
+  await assert.rejects(runLiveExplore(session()), /All listing providers failed: Broken: upstream 503/);
+});
+
+test("a replayed run records no sightings and adds no listing history", async () => {
+  const shared = process.env.LISTING_HISTORY_PATH;
+  process.env.LISTING_HISTORY_PATH = path.join(dir, "replay.json");
+  process.env.LISTING_REPLAY = "replay";
+  try {
+    const first = await runLiveExplore(session());
+    const again = await runLiveExplore(session());
+
+    assert.equal(existsSync(process.env.LISTING_HISTORY_PATH), false);
+    assert.deepEqual(again.session.finalists, first.session.finalists);
+    for (const c of [...again.session.finalists, ...again.session.discovery]) {
+      assert.ok(!c.rationale.some((r) => r.startsWith("Listed at least")), c.url);
+    }
+  } finally {
+    process.env.LISTING_HISTORY_PATH = shared;
+  }
+});
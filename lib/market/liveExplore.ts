@@ -1,10 +1,14 @@
 // lib/market/liveExplore.ts
-import type { AgentSession } from "@/lib/agent/schema";
+import type { AgentSession, Candidate, ExploreStats } from "@/lib/agent/schema";
 import { clampFinalists, clampDiscovery } from "@/lib/agent/stateMachine";
 import { deriveExploreSeed } from "./exploreSeed";
-import { searchAutoDevListings } from "./autodev";
-import { listingToSignals, buildCandidateFromSignals } from "./normalizeCandidate";
-import { scoreAndTier } from "./scoreAndTier";
+import { buildCandidateFromSignals, type CandidateSignals } from "./normalizeCandidate";
+import { resolveProviders } from "./providers";
+import { dedupeListings } from "./dedupe";
+import { scoreAndTier, type Tiered } from "./scoreAndTier";
+import { recordObservations } from "./observationStore";
+import { replayMode } from "./replay";
+import { withVinEvidence } from "./vin";
 
 function withTimeout<T>(p: Promise<T>, ms: number): Promise<T> {
   return new Promise((resolve, reject) => {
@@ -13,29 +17,35 @@ function withTimeout<T>(p: Promise<T>, ms: number): Promise<T> {
   });
 }
 
-function dedupeListingsByVinOrUrl(listings: any[]) {
-  const seen = new Set<string>();
-  const out: any[] = [];
-
-  for (const l of listings) {
-    const vin = (l?.vin || l?.vehicle?.vin || "").toString().trim();
-    const url = (l?.retailListing?.vdp || l?.["@id"] || "").toString().trim();
-
-    const key = vin ? `vin:${vin}` : url ? `url:${url}` : "";
-    if (!key) continue;
-
-    if (seen.has(key)) continue;
-    seen.add(key);
-    out.push(l);
-  }
-
-  return out;
+export type ProviderRunMeta = {
+  id: string;
+  label: string;
+  fetched: number;
+  used: number;
+  pages: number;
+  error?: string;
+};
+
+export type ExploreMeta = {
+  fetched: number;
+  used: number;
+  providers: ProviderRunMeta[];
+  stats: ExploreStats;
+  seed: ReturnType<typeof deriveExploreSeed>;
+};
+
+const keepAll = (c: Candidate[]) => c;
+
+function envInt(name: string, fallback: number) {
+  const n = parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
 }
 
-
 export async function runLiveExplore(session: AgentSession): Promise<{
   session: AgentSession;
-  meta: { fetched: number; used: number; seed: ReturnType<typeof deriveExploreSeed> };
+  meta: ExploreMeta;
+  scored: Tiered; // unclamped: every finalist/discovery/rejected candidate in the pool
+  pool: CandidateSignals[]; // deduped signals behind `scored`, for counterfactual re-scoring
 }> {
   const seed = deriveExploreSeed(session);
 
@@ -43,52 +53,137 @@ export async function runLiveExplore(session: AgentSession): Promise<{
   if (!seed.make || !seed.model) {
     throw new Error("Insufficient seed (missing make/model)");
   }
+  const { make, model } = seed;
+
+  const pageSize = envInt("LIVE_SEARCH_TOPN", 50);
+  const timeoutMs = envInt("LIVE_SEARCH_TIMEOUT_MS", 3500);
+
+  // Adaptive depth: keep paging while Tier 1 supply is scarce,
+  // bounded by a listing budget and a wall-clock budget.
+  const minTier1 = envInt("LIVE_SEARCH_MIN_TIER1", 3);
+  const maxListings = envInt("LIVE_SEARCH_MAX_LISTINGS", 300);
+  const budgetMs = envInt("LIVE_SEARCH_BUDGET_MS", 12000);
+  const startedAt = Date.now();
+
+  const providers = resolveProviders();
+  const perProvider: ProviderRunMeta[] = providers.map((p) => ({ id: p.id, label: p.label, fetched: 0, used: 0, pages: 0 }));
+  const exhausted = new Set<string>();
+
+  let pool: CandidateSignals[] = [];
+  let fetched = 0;
+  let page = 1;
+  let tier1Found = 0;
+  let stopReason: ExploreStats["stopReason"];
+
+  for (;;) {
+    const round = providers.filter((p) => !exhausted.has(p.id));
+
+    // Fan out: every provider runs concurrently under its own timeout.
+    // One slow or failing source must not sink the others.
+    const settled = await Promise.allSettled(
+      round.map((provider) =>
+        withTimeout(
+          provider.search({
+            page,
+            limit: Math.min(provider.capabilities.maxPageSize, pageSize),
+            sort: "price.asc",
+            yearMin: seed.yearMin,
+            yearMax: seed.yearMax,
+            make,
+            model,
+            transmission: seed.transmission === "manual" ? "manual" : undefined,
+            // do NOT filter by color here; it’s unreliable. handle in scoring.
+            priceMaxUsd: seed.budgetMaxUsd,
+            // optional mileage upper bound if provided (keeps recall reasonable)
+            milesMax: provider.capabilities.mileageFilter ? seed.mileageOkMax : undefined,
+            // a single included state is a server-side filter; more than one is gated in scoring
+            state: seed.statesInclude?.length === 1 ? seed.statesInclude[0] : undefined,
+          }),
+          provider.timeoutMs ?? timeoutMs
+        )
+      )
+    );
+
+    const fresh: CandidateSignals[] = [];
+    round.forEach((provider, i) => {
+      const r = settled[i];
+      const m = perProvider.find((x) => x.id === provider.id)!;
+      if (r.status === "rejected") {
+        // A failed page ends that provider's run; earlier pages still count.
+        m.error = r.reason instanceof Error ? r.reason.message : String(r.reason);
+        exhausted.add(provider.id);
+        return;
+      }
+      m.pages = page;
+      m.fetched += r.value.length;
+      fresh.push(...r.value.map(withVinEvidence));
+      const limit = Math.min(provider.capabilities.maxPageSize, pageSize);
+      if (!provider.capabilities.pagination || r.value.length < limit) exhausted.add(provider.id);
+    });
+
+    if (page === 1 && perProvider.every((p) => p.error)) {
+      throw new Error(`All listing providers failed: ${perProvider.map((p) => `${p.label}: ${p.error}`).join("; ")}`);
+    }
+
+    fetched += fresh.length;
+    // Merge in price order across sources so ranking ties stay deterministic
+    pool = dedupeListings([...pool, ...fresh].sort((a, b) => (a.price ?? Infinity) - (b.price ?? Infinity)));
+    tier1Found = scoreAndTier(seed, toScoringInput(pool), keepAll, keepAll).finalists.length;
+
+    if (tier1Found >= minTier1) { stopReason = "enough_finalists"; break; }
+    if (exhausted.size === providers.length) { stopReason = "exhausted"; break; }
+    if (fetched >= maxListings) { stopReason = "listing_budget"; break; }
+    if (Date.now() - startedAt >= budgetMs) { stopReason = "time_budget"; break; }
+    page++;
+  }
 
-  const topN = parseInt(process.env.LIVE_SEARCH_TOPN ?? "50", 10);
-  const timeoutMs = parseInt(process.env.LIVE_SEARCH_TIMEOUT_MS ?? "3500", 10);
-
-  // Build provider query (keep broader than Tier-1 to avoid missing)
-  const year = seed.yearMin && seed.yearMax ? `${seed.yearMin}-${seed.yearMax}` : undefined;
-  const price = seed.budgetMaxUsd ? `0-${seed.budgetMaxUsd}` : undefined;
-
-  const listings = await withTimeout(
-    searchAutoDevListings({
-      page: 1,
-      limit: Math.min(100, Math.max(1, topN)),
-      sort: "price.asc",
-      year,
-      make: seed.make,
-      model: seed.model,
-      transmission: seed.transmission === "manual" ? "manual" : undefined,
-      // do NOT filter by color here; it’s unreliable. handle in scoring.
-      price,
-      // optional mileage upper bound if provided (keeps recall reasonable)
-      miles: seed.mileageOkMax ? `0-${seed.mileageOkMax}` : undefined,
-    }),
-    timeoutMs
-  );
-  
-  //Logging for object
-  //console.log("AUTO_DEV_SAMPLE_LISTING", JSON.stringify(listings[0], null, 2));
-
-  const deduped = dedupeListingsByVinOrUrl(listings);
-  const sliced = deduped.slice(0, topN);
-
-  const sigs = sliced.map((l: any) => listingToSignals(l));
-  const candidates = sigs.map((sig) =>
-    buildCandidateFromSignals(sig, 50, "CONDITIONAL", ["Unscored (initial)"])
-  );
-
-  const tiered = scoreAndTier(
-    seed,
-    candidates.map((candidate, i) => ({ candidate, sig: sigs[i] })),
-    clampFinalists,
-    clampDiscovery
-  );
+  for (const sig of pool) {
+    const p = perProvider.find((x) => x.id === sig.source);
+    if (p) p.used++;
+  }
+
+  pool = withHistory(pool);
+  const scored = scoreAndTier(seed, toScoringInput(pool), keepAll, keepAll);
+  const tiered = { ...scored, finalists: clampFinalists(scored.finalists), discovery: clampDiscovery(scored.discovery) };
+
+  const stats: ExploreStats = {
+    pagesScanned: Math.max(0, ...perProvider.map((p) => p.pages)),
+    listingsScanned: fetched,
+    providerPages: Object.fromEntries(perProvider.map((p) => [p.id, p.pages])),
+    tier1Found,
+    exhaustive: exhausted.size === providers.length && perProvider.every((p) => !p.error),
+    stopReason,
+  };
 
   const next = structuredClone(session) as AgentSession;
   next.finalists = tiered.finalists;
   next.discovery = tiered.discovery;
+  next.explore_stats = stats;
+
+  return { session: next, meta: { fetched, used: pool.length, providers: perProvider, stats, seed }, scored, pool };
+}
+
+/**
+ * Record this run's sightings and attach each listing's history (price drops,
+ * days listed). History is advisory: a store failure must not fail Explore.
+ * Replays skip it: a replayed response is not a sighting, and history read
+ * against the wall clock would make the run non-deterministic.
+ */
+function withHistory(pool: CandidateSignals[]): CandidateSignals[] {
+  if (replayMode() === "replay") return pool;
+  try {
+    const input = toScoringInput(pool);
+    const histories = recordObservations(input.map(({ sig, candidate }) => ({ id: candidate.id, sig })));
+    return input.map(({ sig, candidate }) => ({ ...sig, history: histories[candidate.id] }));
+  } catch (e) {
+    console.error("Listing history unavailable:", e);
+    return pool;
+  }
+}
 
-  return { session: next, meta: { fetched: listings.length, used: sliced.length, seed } };
+export function toScoringInput(sigs: CandidateSignals[]) {
+  return sigs.map((sig) => ({
+    sig,
+    candidate: buildCandidateFromSignals(sig, 50, "CONDITIONAL", ["Unscored (initial)"]),
+  }));
 }
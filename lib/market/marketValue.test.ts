@@ -0,0 +1,55 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { ExploreSeed } from "./exploreSeed";
+import { assessDeal, buildMarketModel } from "./marketValue";
+import type { CandidateSignals } from "./normalizeCandidate";
+
+const seed: ExploreSeed = { make: "Porsche", model: "Boxster", trims: ["S"] };
+
+// Exactly linear market: $2,000 per model year, -$1,000 per 10k miles
+const onLine = (year: number, miles: number, trim = "S"): CandidateSignals => ({
+  make: "Porsche",
+  model: "Boxster",
+  trim,
+  year,
+  miles,
+  price: 10000 + 2000 * (year - 2000) - 1000 * (miles / 10000),
+});
+
+const market = [onLine(2002, 80000), onLine(2003, 60000), onLine(2004, 50000), onLine(2004, 70000), onLine(2005, 40000), onLine(2006, 65000)];
+
+test("each listing is valued leave-one-out, so an outlier does not set its own benchmark", () => {
+  const bargain = { ...onLine(2004, 60000), price: 9000 }; // line value is $12,000
+  const model = buildMarketModel(seed, [...market, bargain]);
+
+  // The other six sit exactly on the line, so the estimate is the line value
+  assert.deepEqual(model.estimate(bargain), { expected: 12000, comps: 6 });
+
+  const deal = assessDeal(model, bargain)!;
+  assert.equal(deal.market.deltaPct, -0.25);
+  assert.equal(deal.points, 10); // capped
+  assert.match(deal.reason, /^Priced 25% below comparable listings \(est\. \$12,000 from 6 Boxster S comps\)$/);
+});
+
+test("narrows to the target trim only when enough trim comps remain", () => {
+  const bases = [onLine(2003, 60000, "Base"), onLine(2004, 50000, "Base")];
+  assert.equal(buildMarketModel(seed, [...market, ...bases]).basis, "Boxster S");
+  assert.equal(buildMarketModel(seed, [...market.slice(1), ...bases]).basis, "Boxster, all trims");
+});
+
+test("drops terms the comps cannot support, and gives up below the minimum", () => {
+  const sameYear = [40000, 50000, 60000, 70000, 80000, 90000].map((m) => onLine(2004, m));
+  const model = buildMarketModel(seed, sameYear);
+  // year is constant -> singular with both terms; the mileage-only fit still works
+  assert.deepEqual(model.estimate(sameYear[0]), { expected: sameYear[0].price, comps: 5 });
+
+  assert.equal(buildMarketModel(seed, market.slice(0, 5)).estimate(market[0]), undefined);
+  assert.equal(assessDeal(buildMarketModel(seed, market), { ...market[0], price: undefined }), undefined);
+});
+
+test("a price within 3% of the estimate reads as in line", () => {
+  const car = { ...onLine(2004, 60000), price: 12200 };
+  const deal = assessDeal(buildMarketModel(seed, [...market, car]), car)!;
+  assert.equal(deal.points, -1);
+  assert.match(deal.reason, /^Priced in line with comparable listings/);
+});
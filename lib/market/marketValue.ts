@@ -0,0 +1,157 @@
+// lib/market/marketValue.ts
+import type { CandidateMarket } from "@/lib/agent/schema";
+import type { ExploreSeed } from "./exploreSeed";
+import type { CandidateSignals } from "./normalizeCandidate";
+
+/**
+ * Comparables-based market value.
+ *
+ * Fits price ~ year + mileage (ordinary least squares) over every fetched
+ * listing of the target make/model, narrowed to the target trim(s) when there
+ * are enough of those. Each candidate is valued leave-one-out, so a listing
+ * never sets its own benchmark.
+ *
+ * Falls back to fewer terms when the pool cannot support them (e.g. every
+ * comp is the same year), and gives no estimate below MIN_COMPS.
+ */
+
+const MIN_COMPS = 5;
+const IN_LINE_PCT = 0.03; // |delta| below this reads as "in line"
+
+type Comp = { sig: CandidateSignals; price: number; year?: number; miles?: number };
+
+type Feature = "year" | "miles";
+
+// Predictors are centered/scaled so the normal equations stay well conditioned
+const FEATURES: Record<Feature, (c: { year?: number; miles?: number }) => number | undefined> = {
+  year: (c) => (c.year != null ? c.year - 2000 : undefined),
+  miles: (c) => (c.miles != null ? c.miles / 10000 : undefined),
+};
+
+// Most to least specific; the first one the comps support wins
+const MODELS: Feature[][] = [["year", "miles"], ["miles"], ["year"], []];
+
+function words(x?: string) {
+  return (x ?? "").toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+function sameText(a?: string, b?: string) {
+  return !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function matchesTrim(sig: CandidateSignals, trims: string[]) {
+  const have = new Set(words(sig.trim));
+  return trims.some((trim) => {
+    const want = words(trim);
+    return want.length > 0 && want.every((w) => have.has(w));
+  });
+}
+
+/**
+ * Solve (XᵀX)β = Xᵀy by Gaussian elimination. Undefined when singular.
+ */
+function solve(rows: number[][], y: number[]): number[] | undefined {
+  const k = rows[0].length;
+  const a = Array.from({ length: k }, (_, i) => {
+    const row = Array.from({ length: k }, (_, j) => rows.reduce((s, r) => s + r[i] * r[j], 0));
+    row.push(rows.reduce((s, r, n) => s + r[i] * y[n], 0));
+    return row;
+  });
+
+  for (let col = 0; col < k; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < k; r++) if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    if (Math.abs(a[pivot][col]) < 1e-9) return undefined;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let r = 0; r < k; r++) {
+      if (r === col) continue;
+      const f = a[r][col] / a[col][col];
+      for (let c = col; c <= k; c++) a[r][c] -= f * a[col][c];
+    }
+  }
+
+  return a.map((row, i) => row[k] / row[i]);
+}
+
+function fit(comps: Comp[], features: Feature[]) {
+  const usable = comps.filter((c) => features.every((f) => FEATURES[f](c) != null));
+  // Need a few more points than parameters for the fit to mean anything
+  if (usable.length < Math.max(MIN_COMPS, features.length + 3)) return undefined;
+
+  const rows = usable.map((c) => [1, ...features.map((f) => FEATURES[f](c)!)]);
+  const beta = solve(rows, usable.map((c) => c.price));
+  return beta ? { beta, n: usable.length } : undefined;
+}
+
+export type MarketModel = {
+  basis: string; // e.g. "Boxster S" or "Boxster, all trims"
+  estimate(sig: CandidateSignals): { expected: number; comps: number } | undefined;
+};
+
+export function buildMarketModel(seed: ExploreSeed, signals: CandidateSignals[]): MarketModel {
+  const all: Comp[] = signals
+    .filter((s) => s.price != null && s.price > 0)
+    .filter((s) => (!seed.make || sameText(s.make, seed.make)) && (!seed.model || sameText(s.model, seed.model)))
+    .map((s) => ({ sig: s, price: s.price!, year: s.year, miles: s.miles }));
+
+  const trims = seed.trims ?? [];
+  const trimComps = trims.length ? all.filter((c) => matchesTrim(c.sig, trims)) : [];
+  const byTrim = trimComps.length > MIN_COMPS; // leave-one-out still leaves MIN_COMPS
+  const comps = byTrim ? trimComps : all;
+
+  const basis = [seed.model ?? "this model", byTrim ? trims.join("/") : trims.length ? "all trims" : undefined]
+    .filter(Boolean)
+    .join(byTrim ? " " : ", ");
+
+  return {
+    basis,
+    estimate(sig) {
+      const others = comps.filter((c) => c.sig !== sig);
+      for (const features of MODELS) {
+        if (!features.every((f) => FEATURES[f](sig) != null)) continue;
+        const m = fit(others, features);
+        if (!m) continue;
+
+        const x = [1, ...features.map((f) => FEATURES[f](sig)!)];
+        const expected = x.reduce((s, v, i) => s + v * m.beta[i], 0);
+        // A fit extrapolated into nonsense (e.g. negative price) is no estimate
+        if (!(expected > 0)) return undefined;
+        return { expected: Math.round(expected), comps: m.n };
+      }
+      return undefined;
+    },
+  };
+}
+
+/**
+ * Deal signal for one priced candidate: score points and a rationale line.
+ * Points scale with the scoring profile: `per10Pct` for each 10% below
+ * comparables (default 5), capped at ±`max` (default 10).
+ */
+export function assessDeal(
+  model: MarketModel,
+  sig: CandidateSignals,
+  weights: { per10Pct: number; max: number } = { per10Pct: 5, max: 10 }
+): { points: number; reason: string; market: CandidateMarket } | undefined {
+  if (sig.price == null) return undefined;
+  const est = model.estimate(sig);
+  if (!est) return undefined;
+
+  const deltaPct = (sig.price - est.expected) / est.expected;
+  const pct = Math.round(Math.abs(deltaPct) * 100);
+  const basis = `est. $${est.expected.toLocaleString()} from ${est.comps} ${model.basis} comps`;
+
+  const reason =
+    Math.abs(deltaPct) < IN_LINE_PCT
+      ? `Priced in line with comparable listings (${basis})`
+      : `Priced ${pct}% ${deltaPct < 0 ? "below" : "above"} comparable listings (${basis})`;
+
+  const points = Math.round(Math.max(-weights.max, Math.min(weights.max, -deltaPct * 10 * weights.per10Pct)));
+
+  return {
+    points,
+    reason,
+    market: { expected: est.expected, deltaPct: Math.round(deltaPct * 1000) / 1000, comps: est.comps, basis: model.basis },
+  };
+}
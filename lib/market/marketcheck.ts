@@ -0,0 +1,133 @@
+// lib/market/marketcheck.ts
+import type { ListingProvider, ListingSearchParams } from "./listingProvider";
+import { normStr, toNum, type CandidateSignals } from "./normalizeCandidate";
+import { withReplay } from "./replay";
+
+// Subset of the MarketCheck active-inventory payload we actually read.
+export type MarketCheckListing = {
+  id?: string;
+  vin?: string;
+  heading?: string;
+  price?: number | string;
+  miles?: number | string;
+  exterior_color?: string;
+  vdp_url?: string;
+  media?: { photo_links?: string[] };
+  dealer?: { name?: string; city?: string; state?: string };
+  build?: {
+    year?: number | string;
+    make?: string;
+    model?: string;
+    trim?: string;
+    transmission?: string;
+    engine?: string;
+  };
+};
+
+const SORTS: Record<NonNullable<ListingSearchParams["sort"]>, [string, string]> = {
+  "price.asc": ["price", "asc"],
+  "mileage.asc": ["miles", "asc"],
+  "year.desc": ["year", "desc"],
+};
+
+const PAGE_MAX = 50;
+
+// Trim and color are left to scoring, as in the Auto.dev adapter
+function buildQuery(p: ListingSearchParams) {
+  const rows = Math.min(PAGE_MAX, Math.max(1, p.limit ?? PAGE_MAX));
+  const q = new URLSearchParams();
+  q.set("car_type", "used");
+  q.set("rows", String(rows));
+  q.set("start", String(((p.page ?? 1) - 1) * rows));
+  if (p.sort) {
+    const [by, order] = SORTS[p.sort];
+    q.set("sort_by", by);
+    q.set("sort_order", order);
+  }
+
+  q.set("make", p.make);
+  q.set("model", p.model);
+  if (p.yearMin && p.yearMax) q.set("year_range", `${p.yearMin}-${p.yearMax}`);
+  if (p.transmission === "manual") q.set("transmission", "Manual");
+  if (p.priceMaxUsd) q.set("price_range", `0-${p.priceMaxUsd}`);
+  if (p.milesMax) q.set("miles_range", `0-${p.milesMax}`);
+  if (p.state) q.set("state", p.state);
+
+  return q.toString();
+}
+
+async function fetchMarketCheckListings(qs: string) {
+  const apiKey = process.env.MARKETCHECK_API_KEY;
+  if (!apiKey) {
+    throw new Error("Missing MARKETCHECK_API_KEY");
+  }
+
+  const res = await fetch(`https://mc-api.marketcheck.com/v2/search/car/active?api_key=${encodeURIComponent(apiKey)}&${qs}`);
+
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    throw new Error(`MarketCheck error ${res.status}: ${text.slice(0, 200)}`);
+  }
+
+  const json = await res.json();
+  // Expected: { num_found, listings: [...] }
+  return (json?.listings ?? []) as MarketCheckListing[];
+}
+
+export function marketCheckToSignals(l: MarketCheckListing): CandidateSignals {
+  const b = l.build ?? {};
+  const d = l.dealer ?? {};
+
+  const make = normStr(b.make);
+  const model = normStr(b.model);
+  const trim = normStr(b.trim);
+  const transmission = normStr(b.transmission);
+  const exteriorColor = normStr(l.exterior_color);
+  const state = normStr(d.state);
+  const dealer = normStr(d.name);
+
+  const rawText = [
+    normStr(l.heading),
+    make, model, trim, transmission, exteriorColor,
+    normStr(b.engine),
+    normStr(d.city), state, dealer,
+  ].filter(Boolean).join(" ").toLowerCase();
+
+  return {
+    year: toNum(b.year),
+    make,
+    model,
+    trim,
+    transmission,
+    exteriorColor,
+    price: toNum(l.price),
+    miles: toNum(l.miles),
+    state,
+    dealer,
+    url: normStr(l.vdp_url),
+    photo: normStr(l.media?.photo_links?.[0]),
+    vin: normStr(l.vin),
+    rawText,
+    source: "marketcheck",
+  };
+}
+
+export const marketCheckProvider: ListingProvider = {
+  id: "marketcheck",
+  label: "MarketCheck",
+  capabilities: {
+    // Color and trim are not sent (judged in scoring instead)
+    colorFilter: false,
+    trimFilter: false,
+    transmissionFilter: true,
+    mileageFilter: true,
+    stateFilter: true,
+    pagination: true,
+    maxPageSize: PAGE_MAX,
+  },
+  async search(params) {
+    const qs = buildQuery(params);
+    const listings = await withReplay("marketcheck", qs, () => fetchMarketCheckListings(qs));
+    return listings.map(marketCheckToSignals);
+  },
+};
@@ -1,15 +1,17 @@
 // lib/market/normalizeCandidate.ts
-import type { Candidate, Verdict } from "@/lib/agent/schema";
+import type { Candidate, ListingHistory, Verdict } from "@/lib/agent/schema";
 import { makeCandidate } from "@/lib/agent/scoring";
 import type { AutoDevListing } from "./autodev";
 import type { ExploreSeed } from "./exploreSeed";
+import type { VinDecode } from "./vin";
 
-function toNum(x: any): number | undefined {
+// Payload coercion, shared by the provider adapters
+export function toNum(x: unknown): number | undefined {
   const n = typeof x === "number" ? x : typeof x === "string" ? parseFloat(x) : NaN;
   return Number.isFinite(n) ? n : undefined;
 }
 
-function normStr(x: any): string | undefined {
+export function normStr(x: unknown): string | undefined {
   if (typeof x !== "string") return undefined;
   const t = x.trim();
   return t ? t : undefined;
@@ -41,6 +43,10 @@ export type CandidateSignals = {
   photo?: string;
   vin?: string;
   rawText?: string;
+  source?: string; // provider id that produced this listing
+  sources?: string[]; // every provider that returned this car (after cross-source merge)
+  history?: ListingHistory; // attached from the observation store after fetch
+  vinDecode?: VinDecode; // offline VIN decode (see vin.ts)
 };
 
 export function listingToSignals(l: AutoDevListing): CandidateSignals {
@@ -59,10 +65,10 @@ export function listingToSignals(l: AutoDevListing): CandidateSignals {
   const state = normStr(r.state);
   const dealer = normStr(r.dealer);
 
-  const url = normStr(r.vdp) || normStr(l["@id"]);
+  const url = normStr(r.vdp) || normStr(l?.["@id"]);
   const photo = normStr(r.primaryImage);
 
-  const vin = normStr(l.vin) || normStr(v.vin);
+  const vin = normStr(l?.vin) || normStr(v.vin);
 
   const rawText = [
     make, model, trim, transmission, exteriorColor,
@@ -90,12 +96,19 @@ export function buildCandidateFromSignals(sig: CandidateSignals, score: number,
   const title = `${titleParts.join(" ")}${meta.length ? " — " + meta.join(", ") : ""}`.trim();
 
   return makeCandidate({
-    id: stableId([sig.vin, sig.url, sig.year, sig.make, sig.model, sig.trim, sig.price]),
+    // Identity must survive price changes (watch ledgers track drops), so
+    // VIN or URL alone when available; the descriptive fallback is best-effort.
+    id: sig.vin
+      ? stableId([sig.vin])
+      : sig.url
+        ? stableId([sig.url])
+        : stableId([sig.year, sig.make, sig.model, sig.trim, sig.price]),
     title,
     url: sig.url,
     // NOTE: Candidate.images is documented as base64 data URLs in v1, but the UI usually accepts normal URLs.
     // If your UI enforces data URLs, omit images here.
     images: sig.photo ? [sig.photo] : undefined,
+    price: sig.price,
     verdict,
     score,
     rationale,
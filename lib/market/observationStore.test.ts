@@ -0,0 +1,73 @@
+import { after, beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { CandidateSignals } from "./normalizeCandidate";
+import { getListingHistory, getListingRecord, markDelisted, recordObservations } from "./observationStore";
+
+const dir = mkdtempSync(path.join(tmpdir(), "history-"));
+
+beforeEach(() => {
+  process.env.LISTING_HISTORY_PATH = path.join(dir, `${Math.random().toString(36).slice(2)}.json`);
+});
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+  delete process.env.LISTING_HISTORY_PATH;
+});
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const T0 = Date.UTC(2026, 0, 1);
+
+const seen = (price: number, miles = 48000): { id: string; sig: CandidateSignals } => ({
+  id: "vin:WP0CB29894U610022",
+  sig: { price, miles, vin: "WP0CB29894U610022", url: "https://fixtures.local/listings/2", source: "fixture" },
+});
+
+test("first sighting starts the record; later ones report days listed and price drops", () => {
+  assert.deepEqual(recordObservations([seen(27900)], T0)[seen(0).id], {
+    firstSeenAt: T0,
+    daysListed: 0,
+    sightings: 1,
+    firstPrice: 27900,
+  });
+
+  recordObservations([seen(26500)], T0 + 10 * DAY);
+  const h = recordObservations([seen(25900)], T0 + 21 * DAY)[seen(0).id];
+  assert.deepEqual(h, {
+    firstSeenAt: T0,
+    daysListed: 21,
+    sightings: 3,
+    firstPrice: 27900,
+    priceDrop: 2000,
+    lastDropAt: T0 + 21 * DAY,
+  });
+});
+
+test("an unchanged sighting within the interval only moves lastSeenAt", () => {
+  recordObservations([seen(27900)], T0);
+  recordObservations([seen(27900)], T0 + HOUR);
+
+  const r = getListingRecord(seen(0).id)!;
+  assert.equal(r.observations.length, 1);
+  assert.equal(r.lastSeenAt, T0 + HOUR);
+
+  recordObservations([seen(27900)], T0 + 13 * HOUR);
+  assert.equal(getListingRecord(seen(0).id)!.observations.length, 2);
+});
+
+test("a listing seen again after being delisted is flagged as relisted", () => {
+  recordObservations([seen(27900)], T0);
+  markDelisted([seen(0).id, "url:unknown"], T0 + DAY);
+  markDelisted([seen(0).id], T0 + 2 * DAY); // already delisted: no duplicate
+  assert.deepEqual(
+    getListingRecord(seen(0).id)!.observations.map((o) => o.status),
+    ["listed", "delisted"]
+  );
+
+  recordObservations([seen(27900)], T0 + 5 * DAY);
+  assert.equal(getListingHistory(seen(0).id, T0 + 5 * DAY)?.relisted, true);
+  assert.equal(getListingHistory("url:unknown"), undefined);
+});
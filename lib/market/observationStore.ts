@@ -0,0 +1,152 @@
+// lib/market/observationStore.ts
+
+import fs from "node:fs";
+import path from "node:path";
+import type { ListingHistory } from "@/lib/agent/schema";
+import type { CandidateSignals } from "./normalizeCandidate";
+
+/**
+ * Listing observation store (v1): a single JSON file keyed by candidate id
+ * (the VIN- or URL-derived stableId, so every source maps to one record).
+ *
+ * - Location: LISTING_HISTORY_PATH (default .data/listings.json)
+ * - Every Explore and watch run records what it saw. A new observation is
+ *   appended when price, mileage or status changed, or OBSERVE_INTERVAL_MS
+ *   has passed; otherwise only lastSeenAt moves. This keeps the file small
+ *   when the daemon re-runs often.
+ * - Same read-every-call, atomic-write approach as watchStore.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const OBSERVE_INTERVAL_MS = 12 * 60 * 60 * 1000;
+const MAX_OBSERVATIONS = 60; // the first is always kept (original asking price)
+
+export type ListingObservation = {
+  at: number;
+  price?: number;
+  miles?: number;
+  status: "listed" | "delisted";
+  source?: string;
+};
+
+export type ListingRecord = {
+  id: string;
+  vin?: string;
+  url?: string;
+  firstSeenAt: number;
+  lastSeenAt: number;
+  observations: ListingObservation[];
+};
+
+type StoreFile = { version: 1; listings: Record<string, ListingRecord> };
+
+function storePath() {
+  return path.resolve(process.cwd(), process.env.LISTING_HISTORY_PATH ?? ".data/listings.json");
+}
+
+function load(): Record<string, ListingRecord> {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(storePath(), "utf8")) as StoreFile;
+    return parsed?.listings && typeof parsed.listings === "object" ? parsed.listings : {};
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException)?.code === "ENOENT") return {};
+    throw e;
+  }
+}
+
+function save(listings: Record<string, ListingRecord>) {
+  const file = storePath();
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify({ version: 1, listings } satisfies StoreFile) + "\n", "utf8");
+  fs.renameSync(tmp, file);
+}
+
+function append(r: ListingRecord, o: ListingObservation) {
+  r.observations.push(o);
+  if (r.observations.length > MAX_OBSERVATIONS) {
+    r.observations = [r.observations[0], ...r.observations.slice(-(MAX_OBSERVATIONS - 1))];
+  }
+}
+
+function summarize(r: ListingRecord, now: number): ListingHistory {
+  const obs = r.observations;
+  const priced = obs.filter((o) => o.price != null);
+  const firstPrice = priced[0]?.price;
+  const current = priced[priced.length - 1]?.price;
+
+  let lastDropAt: number | undefined;
+  for (let i = 1; i < priced.length; i++) {
+    if (priced[i].price! < priced[i - 1].price!) lastDropAt = priced[i].at;
+  }
+
+  const drop = firstPrice != null && current != null ? firstPrice - current : 0;
+  const relisted = obs.some((o, i) => o.status === "listed" && obs[i - 1]?.status === "delisted");
+
+  return {
+    firstSeenAt: r.firstSeenAt,
+    daysListed: Math.floor((now - r.firstSeenAt) / DAY_MS),
+    sightings: obs.filter((o) => o.status === "listed").length,
+    firstPrice,
+    ...(drop > 0 ? { priceDrop: drop, lastDropAt } : {}),
+    ...(relisted ? { relisted } : {}),
+  };
+}
+
+/**
+ * Record one run's sightings and return each listing's history (including
+ * this sighting), keyed by id.
+ */
+export function recordObservations(
+  items: { id: string; sig: CandidateSignals }[],
+  now = Date.now()
+): Record<string, ListingHistory> {
+  const listings = load();
+  const out: Record<string, ListingHistory> = {};
+
+  for (const { id, sig } of items) {
+    const obs: ListingObservation = { at: now, price: sig.price, miles: sig.miles, status: "listed", source: sig.source };
+    const r = listings[id];
+
+    if (!r) {
+      listings[id] = { id, vin: sig.vin, url: sig.url, firstSeenAt: now, lastSeenAt: now, observations: [obs] };
+    } else {
+      const last = r.observations[r.observations.length - 1];
+      const changed = !last || last.status !== "listed" || last.price !== obs.price || last.miles !== obs.miles;
+      if (changed || now - last.at >= OBSERVE_INTERVAL_MS) append(r, obs);
+      r.lastSeenAt = now;
+      r.vin = r.vin ?? sig.vin;
+      r.url = r.url ?? sig.url;
+    }
+
+    out[id] = summarize(listings[id], now);
+  }
+
+  save(listings);
+  return out;
+}
+
+/**
+ * Mark listings a run proved gone (an exhaustive watch run; see watchLedger).
+ */
+export function markDelisted(ids: string[], now = Date.now()) {
+  if (!ids.length) return;
+  const listings = load();
+
+  for (const id of ids) {
+    const r = listings[id];
+    const last = r?.observations[r.observations.length - 1];
+    if (r && last?.status !== "delisted") append(r, { at: now, status: "delisted" });
+  }
+
+  save(listings);
+}
+
+export function getListingRecord(id: string): ListingRecord | undefined {
+  return load()[id];
+}
+
+export function getListingHistory(id: string, now = Date.now()): ListingHistory | undefined {
+  const r = load()[id];
+  return r ? summarize(r, now) : undefined;
+}
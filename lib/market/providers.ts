@@ -0,0 +1,29 @@
+// lib/market/providers.ts
+import { getProvider, registerProvider, type ListingProvider } from "./listingProvider";
+import { autoDevProvider } from "./autodev";
+import { marketCheckProvider } from "./marketcheck";
+import { fixtureProvider } from "./fixtureProvider";
+
+// Built-in adapters. Additional sources (other marketplaces) register here.
+registerProvider(autoDevProvider);
+registerProvider(marketCheckProvider);
+registerProvider(fixtureProvider);
+
+/**
+ * Resolve the active providers for fan-out search.
+ * LISTING_PROVIDERS is a comma-separated list of ids; defaults to Auto.dev only.
+ */
+export function resolveProviders(ids = process.env.LISTING_PROVIDERS ?? "autodev"): ListingProvider[] {
+  const out: ListingProvider[] = [];
+  for (const id of ids.split(",").map((x) => x.trim()).filter(Boolean)) {
+    const provider = getProvider(id);
+    if (!provider) {
+      throw new Error(`Unknown listing provider: ${id}`);
+    }
+    if (!out.includes(provider)) out.push(provider);
+  }
+  if (!out.length) {
+    throw new Error("No listing providers configured");
+  }
+  return out;
+}
@@ -0,0 +1,66 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { defaultSession } from "@/lib/agent/session";
+import type { AgentSession, Constraint } from "@/lib/agent/schema";
+import { loadFixtureInventory } from "./fixtureProvider";
+import { analyzeRelaxations } from "./relaxation";
+
+const tier1 = (attribute: Constraint["attribute"], operator: Constraint["operator"], value: Constraint["value"]): Constraint => ({
+  attribute,
+  operator,
+  value,
+  tier: 1,
+  text: `${attribute} ${operator} ${JSON.stringify(value)}`,
+});
+
+// 2003–2004 Boxster S, manual, Speed Yellow
+function hunt(): AgentSession {
+  const s = defaultSession("test");
+  s.intent.vehicle = { make: "Porsche", model: "Boxster" };
+  s.constraints.tier1 = [
+    tier1("year", "between", { min: 2003, max: 2004 }),
+    tier1("transmission", "eq", "manual"),
+    tier1("trim", "eq", "S"),
+    tier1("exterior_color", "eq", "Speed Yellow"),
+  ];
+  return s;
+}
+
+test("ranks edits by how many fetched listings each one newly lets through Tier 1", async () => {
+  const pool = await loadFixtureInventory();
+  const edits = analyzeRelaxations(hunt(), pool);
+
+  const summary = edits.map((e) => [e.attribute, e.kind, e.impact?.unlocked]);
+  // Dropping color admits the Guards Red S (#4) and the S with no color listed (#9);
+  // dropping trim admits the Speed Yellow Base (#3). Nothing else unlocks anything.
+  assert.deepEqual(summary.slice(0, 2), [
+    ["exterior_color", "remove", 2],
+    ["trim", "remove", 1],
+  ]);
+  assert.ok(summary.slice(2).every(([, , unlocked]) => unlocked === 0));
+
+  assert.equal(edits[0].impact?.best?.url, "https://fixtures.local/listings/4");
+  assert.equal(edits[1].impact?.best?.url, "https://fixtures.local/listings/3");
+  assert.deepEqual(edits.map((e) => e.id), edits.map((_, i) => String(i + 1)));
+});
+
+test("edits on fetch-time filters are reported as lower bounds", async () => {
+  const edits = analyzeRelaxations(hunt(), await loadFixtureInventory());
+
+  const years = edits.find((e) => e.attribute === "year");
+  assert.equal(years?.impact?.lowerBound, true);
+  assert.equal(edits.find((e) => e.attribute === "exterior_color")?.impact?.lowerBound, false);
+});
+
+test("a larger budget step is kept only when it unlocks more than the smaller one", async () => {
+  const s = hunt();
+  s.intent.budget = { max: 20000 };
+  const edits = analyzeRelaxations(s, await loadFixtureInventory());
+
+  // +20% ($24k) admits #1 at $22.5k; +35% ($27k) admits nothing more (#2 is $27.9k)
+  const budget = edits.filter((e) => e.attribute === "price");
+  assert.deepEqual(
+    budget.map((e) => [e.label, e.impact?.unlocked, e.impact?.best?.url]),
+    [["Raise budget to $24,000 (+20%)", 1, "https://fixtures.local/listings/1"]]
+  );
+});
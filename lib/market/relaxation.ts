@@ -0,0 +1,65 @@
+// lib/market/relaxation.ts
+
+import type { AgentSession, Candidate, ConstraintAttribute, ConstraintEdit } from "@/lib/agent/schema";
+import { applyEditsToSession, MAX_EDITS, numberEdits, suggestEdits } from "@/lib/agent/iterate";
+import { deriveExploreSeed } from "./exploreSeed";
+import { toScoringInput } from "./liveExplore";
+import type { CandidateSignals } from "./normalizeCandidate";
+import { scoreAndTier } from "./scoreAndTier";
+
+/**
+ * "What would I get if I relaxed X?"
+ *
+ * Re-scores the listings the last Explore already fetched with each candidate
+ * edit applied on its own, and ranks edits by how many listings newly pass
+ * Tier 1. No provider calls: this is cheap enough to run on every decide().
+ *
+ * Budget is tried in steps; a larger step is only kept when it unlocks more
+ * than the smaller one.
+ */
+
+const BUDGET_STEPS_PCT = [0.1, 0.2, 0.35];
+
+// Sent to providers as query filters (see runLiveExplore), so anything they
+// excluded was never fetched and cannot show up here.
+const FETCH_FILTERED: ReadonlySet<ConstraintAttribute> = new Set(["year", "price", "transmission"]);
+
+const keepAll = (c: Candidate[]) => c;
+
+function tier1Pass(session: AgentSession, pool: CandidateSignals[]): Candidate[] {
+  return scoreAndTier(deriveExploreSeed(session), toScoringInput(pool), keepAll, keepAll).finalists;
+}
+
+export function analyzeRelaxations(session: AgentSession, pool: CandidateSignals[]): ConstraintEdit[] {
+  const baseline = new Set(tier1Pass(session, pool).map((c) => c.id));
+  const edits = suggestEdits(session, { budgetSteps: BUDGET_STEPS_PCT, limit: Infinity });
+
+  const analyzed = edits.map((e) => {
+    const unlocked = tier1Pass(applyEditsToSession(session, [e]), pool)
+      .filter((c) => !baseline.has(c.id))
+      .sort((a, b) => b.score - a.score);
+    const best = unlocked[0];
+
+    return {
+      ...e,
+      impact: {
+        unlocked: unlocked.length,
+        best: best ? { id: best.id, title: best.title, score: best.score, url: best.url } : undefined,
+        lowerBound: FETCH_FILTERED.has(e.attribute),
+      },
+    };
+  });
+
+  // Budget steps come out smallest first
+  let budgetBest = -1;
+  const kept = analyzed.filter((e) => {
+    if (e.attribute !== "price") return true;
+    if (e.impact.unlocked <= budgetBest) return false;
+    budgetBest = e.impact.unlocked;
+    return true;
+  });
+
+  // Stable sort: ties keep suggestEdits order
+  kept.sort((a, b) => b.impact.unlocked - a.impact.unlocked);
+  return numberEdits(kept.slice(0, MAX_EDITS));
+}
@@ -0,0 +1,57 @@
+import { afterEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { replayMode, withReplay } from "./replay";
+
+const dirs: string[] = [];
+
+function useFixturesDir(mode: string) {
+  const dir = mkdtempSync(path.join(tmpdir(), "replay-"));
+  dirs.push(dir);
+  process.env.LISTING_FIXTURES_DIR = dir;
+  process.env.LISTING_REPLAY = mode;
+  return dir;
+}
+
+afterEach(() => {
+  delete process.env.LISTING_FIXTURES_DIR;
+  delete process.env.LISTING_REPLAY;
+  for (const d of dirs.splice(0)) rmSync(d, { recursive: true, force: true });
+});
+
+const live = (data: unknown) => async () => data;
+const offline = async (): Promise<never> => {
+  throw new Error("network used in replay mode");
+};
+
+test("mode parsing: only record and replay switch it on", () => {
+  process.env.LISTING_REPLAY = " Replay ";
+  assert.equal(replayMode(), "replay");
+  process.env.LISTING_REPLAY = "yes";
+  assert.equal(replayMode(), "off");
+});
+
+test("a recorded response replays without calling the provider", async () => {
+  const dir = useFixturesDir("record");
+  const data = [{ vin: "WP0CB29894U610022" }];
+  assert.deepEqual(await withReplay("autodev", "make=Porsche&page=1", live(data)), data);
+  assert.equal(readdirSync(path.join(dir, "autodev")).length, 1);
+
+  process.env.LISTING_REPLAY = "replay";
+  assert.deepEqual(await withReplay("autodev", "make=Porsche&page=1", offline), data);
+});
+
+test("replay is keyed by provider and exact query, and fails loudly when missing", async () => {
+  useFixturesDir("record");
+  await withReplay("autodev", "make=Porsche&page=1", live([1]));
+
+  process.env.LISTING_REPLAY = "replay";
+  await assert.rejects(withReplay("autodev", "make=Porsche&page=2", offline), /No recorded autodev fixture/);
+  await assert.rejects(withReplay("other", "make=Porsche&page=1", offline), /No recorded other fixture/);
+});
+
+test("off is a passthrough", async () => {
+  assert.deepEqual(await withReplay("autodev", "q", live([2])), [2]);
+});
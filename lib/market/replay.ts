@@ -0,0 +1,63 @@
+// lib/market/replay.ts
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * Record/replay of raw provider responses (offline + deterministic Explore).
+ *
+ * LISTING_REPLAY=record  -> call the provider, then save the raw payload
+ * LISTING_REPLAY=replay  -> never hit the network; read the saved payload
+ * (unset)                -> passthrough
+ *
+ * Fixtures live under LISTING_FIXTURES_DIR (default: fixtures/listings),
+ * one JSON file per provider + query string.
+ */
+export type ReplayMode = "off" | "record" | "replay";
+
+type Fixture<T> = {
+  provider: string;
+  query: string;
+  recordedAt: string;
+  data: T;
+};
+
+export function replayMode(): ReplayMode {
+  const m = (process.env.LISTING_REPLAY ?? "").toLowerCase().trim();
+  if (m === "record" || m === "replay") return m;
+  return "off";
+}
+
+function fixturesDir() {
+  return path.resolve(process.cwd(), process.env.LISTING_FIXTURES_DIR ?? "fixtures/listings");
+}
+
+function fixturePath(provider: string, query: string) {
+  // Query strings are long and full of reserved chars; hash for the filename,
+  // keep the readable query inside the file.
+  const h = createHash("sha1").update(query).digest("hex").slice(0, 16);
+  return path.join(fixturesDir(), provider, `${h}.json`);
+}
+
+export async function withReplay<T>(provider: string, query: string, fetchLive: () => Promise<T>): Promise<T> {
+  const mode = replayMode();
+  if (mode === "off") return fetchLive();
+
+  const file = fixturePath(provider, query);
+
+  if (mode === "replay") {
+    let text: string;
+    try {
+      text = await readFile(file, "utf8");
+    } catch {
+      throw new Error(`No recorded ${provider} fixture for query "${query}" (expected ${file})`);
+    }
+    return (JSON.parse(text) as Fixture<T>).data;
+  }
+
+  const data = await fetchLive();
+  const fixture: Fixture<T> = { provider, query, recordedAt: new Date().toISOString(), data };
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, JSON.stringify(fixture, null, 2) + "\n", "utf8");
+  return data;
+}
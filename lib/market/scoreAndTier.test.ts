@@ -0,0 +1,168 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { defaultSession } from "@/lib/agent/session";
+import type { AgentSession, Candidate, Constraint } from "@/lib/agent/schema";
+import { deriveExploreSeed } from "./exploreSeed";
+import { loadFixtureInventory } from "./fixtureProvider";
+import { toScoringInput } from "./liveExplore";
+import type { CandidateSignals } from "./normalizeCandidate";
+import { scoreAndTier } from "./scoreAndTier";
+import { withVinEvidence } from "./vin";
+
+const tier1 = (attribute: Constraint["attribute"], operator: Constraint["operator"], value: Constraint["value"]): Constraint => ({
+  attribute,
+  operator,
+  value,
+  tier: 1,
+  text: `${attribute} ${operator} ${JSON.stringify(value)}`,
+});
+
+// 2003–2004 Boxster S, manual, Speed Yellow
+function hunt(): AgentSession {
+  const s = defaultSession("test");
+  s.intent.vehicle = { make: "Porsche", model: "Boxster" };
+  s.constraints.tier1 = [
+    tier1("year", "between", { min: 2003, max: 2004 }),
+    tier1("transmission", "eq", "manual"),
+    tier1("trim", "eq", "S"),
+    tier1("exterior_color", "eq", "Speed Yellow"),
+  ];
+  return s;
+}
+
+const keepAll = (c: Candidate[]) => c;
+
+function score(pool: CandidateSignals[]) {
+  return scoreAndTier(deriveExploreSeed(hunt()), toScoringInput(pool), keepAll, keepAll);
+}
+
+const listing = (n: number) => `https://fixtures.local/listings/${n}`;
+const find = (list: Candidate[], n: number) => list.find((c) => c.url === listing(n));
+
+test("a provider trim or color field that contradicts Tier 1 rejects the listing", async () => {
+  const { rejected } = score((await loadFixtureInventory()).map(withVinEvidence));
+
+  const base = find(rejected, 3);
+  assert.equal(base?.verdict, "REJECT");
+  assert.deepEqual(
+    base?.evidence?.map(({ attribute, outcome, source, matched, gating }) => ({ attribute, outcome, source, matched, gating })),
+    [{ attribute: "trim", outcome: "contradicted", source: "trim", matched: "Base", gating: true }]
+  );
+
+  const red = find(rejected, 4);
+  assert.equal(red?.evidence?.[0].attribute, "exterior_color");
+  assert.equal(red?.evidence?.[0].outcome, "contradicted");
+  assert.equal(red?.evidence?.[0].matched, "Guards Red");
+});
+
+test("missing fields never contradict: the listing stays, unconfirmed", async () => {
+  const { finalists, discovery, rejected } = score((await loadFixtureInventory()).map(withVinEvidence));
+
+  assert.equal(find(rejected, 9), undefined);
+  const noColor = find(discovery, 9);
+  assert.ok(noColor);
+  assert.equal(noColor.evidence?.find((e) => e.attribute === "exterior_color")?.outcome, "unknown");
+
+  assert.deepEqual(finalists.map((c) => c.url).sort(), [listing(1), listing(10), listing(2)].sort());
+});
+
+test("a partial overlap (Yellow vs Speed Yellow) is unknown, not a contradiction", () => {
+  const sig: CandidateSignals = {
+    year: 2004,
+    make: "Porsche",
+    model: "Boxster",
+    trim: "S",
+    transmission: "Manual",
+    exteriorColor: "Yellow",
+    price: 24000,
+    url: "https://example.test/yellow",
+  };
+  const { finalists, discovery, rejected } = score([sig]);
+
+  assert.equal(rejected.length, 0);
+  assert.equal(finalists.length, 0);
+  assert.equal(discovery[0]?.evidence?.find((e) => e.attribute === "exterior_color")?.outcome, "unknown");
+});
+
+test("placeholder and body-style fields are unknown, not a contradiction", () => {
+  const sig = (trim: string, exteriorColor: string): CandidateSignals => ({
+    year: 2004,
+    make: "Porsche",
+    model: "Boxster",
+    trim,
+    transmission: "Manual",
+    exteriorColor,
+    url: `https://example.test/${trim}-${exteriorColor}`,
+  });
+  const { discovery, rejected } = score([
+    sig("Unknown", "Other"),
+    sig("2dr Convertible", "N/A"),
+    sig("Convertible", "-"),
+    sig("2 Door Roadster", "Not Specified"),
+  ]);
+
+  assert.equal(rejected.length, 0);
+  assert.equal(discovery.length, 4);
+  for (const c of discovery) {
+    assert.deepEqual(
+      c.evidence?.filter((e) => e.attribute === "trim" || e.attribute === "exterior_color").map((e) => e.outcome),
+      ["unknown", "unknown"]
+    );
+  }
+
+  // A real trim next to the body style still counts
+  assert.equal(score([sig("Base 2dr Convertible", "Speed Yellow")]).rejected.length, 1);
+});
+
+test("make and model echoed into the trim field do not count against it", () => {
+  const sig: CandidateSignals = {
+    year: 2004,
+    make: "Porsche",
+    model: "Boxster",
+    trim: "Boxster S",
+    transmission: "Manual",
+    exteriorColor: "Speed Yellow",
+    url: "https://example.test/echo",
+  };
+  const trim = score([sig]).finalists[0]?.evidence?.find((e) => e.attribute === "trim");
+
+  assert.equal(trim?.outcome, "confirmed");
+  assert.equal(trim?.delta, 8);
+});
+
+test("rationale lines are rendered from the evidence", async () => {
+  const { finalists, rejected } = score((await loadFixtureInventory()).map(withVinEvidence));
+
+  assert.deepEqual(find(rejected, 3)?.rationale, ["Trim contradicted by provider field (trim: Base; required S)"]);
+  for (const c of finalists) {
+    assert.deepEqual(c.evidence?.map((e) => e.text).filter(Boolean), c.rationale);
+  }
+});
+
+test("an 'in' constraint keeps every value: a match with any of them confirms", async () => {
+  const s = hunt();
+  s.constraints.tier1 = s.constraints.tier1.map((c) =>
+    c.attribute === "exterior_color" ? tier1("exterior_color", "in", ["Speed Yellow", "Guards Red"]) : c
+  );
+  const seed = deriveExploreSeed(s);
+  assert.deepEqual(seed.colors, ["speed yellow", "guards red"]);
+
+  const { finalists, rejected } = scoreAndTier(
+    seed,
+    toScoringInput((await loadFixtureInventory()).map(withVinEvidence)),
+    keepAll,
+    keepAll
+  );
+
+  const red = find(finalists, 4);
+  assert.ok(red, "the Guards Red S is no longer contradicted");
+  assert.ok(red.rationale.includes("Color confirmed (guards red)"));
+  assert.ok(find(finalists, 2)?.rationale.includes("Color confirmed (speed yellow)"));
+  assert.equal(rejected.filter((c) => c.evidence?.[0].attribute === "exterior_color").length, 0);
+
+  // A color outside the list still contradicts, naming every accepted value
+  const silver: CandidateSignals = { ...(await loadFixtureInventory())[1], exteriorColor: "Arctic Silver", rawText: undefined };
+  assert.deepEqual(scoreAndTier(seed, toScoringInput([silver]), keepAll, keepAll).rejected[0]?.rationale, [
+    "Color contradicted by provider field (exteriorColor: Arctic Silver; required speed yellow or guards red)",
+  ]);
+});
@@ -1,6 +1,9 @@
-import type { Candidate } from "@/lib/agent/schema";
+import type { Candidate, Evidence } from "@/lib/agent/schema";
 import type { ExploreSeed } from "./exploreSeed";
 import type { CandidateSignals } from "./normalizeCandidate";
+import { assessDeal, buildMarketModel } from "./marketValue";
+import { estimateTransportUsd, isSaltBelt, stateCode, stateDistanceMiles } from "./geo";
+import { defaultScoringProfile } from "./scoringProfile";
 
 export type Tiered = {
   finalists: Candidate[];
@@ -21,32 +24,74 @@ function transmissionNorm(x?: string) {
   return undefined;
 }
 
+function tokens(x: string) {
+  return x.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+// Field values that say nothing about the attribute: placeholders, and the
+// body style some providers put in the trim field ("2dr Convertible")
+const PLACEHOLDER = /^\s*(unknown|other|n\/?a|none|not specified|unspecified|tbd|-+)?\s*$/i;
+const BODY_STYLE = /\b(\d\s*-?\s*(dr|doors?)|convertible|coupe|roadster|cabriolet|targa|hatchback|sedan|wagon)\b/g;
+
+function informativeTokens(x: string) {
+  if (PLACEHOLDER.test(x)) return [];
+  return tokens(x.toLowerCase().replace(BODY_STYLE, " "));
+}
+
+function escapeRe(x: string) {
+  return x.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
 /**
- * Strict semantic attribute match.
+ * Strict semantic attribute match (three-valued) against a list of
+ * acceptable values ("Speed Yellow or Black").
+ *
+ * - confirmed: any acceptable phrase appears as whole words in the evidence
+ * - contradicted: the dedicated provider field is present and shares no
+ *   word with any acceptable value (e.g. "Guards Red" vs "Speed Yellow",
+ *   "Base" vs "S")
+ * - unknown: anything else (missing or placeholder field such as "Unknown"
+ *   or "2dr Convertible", or a partial overlap such as "Yellow" vs
+ *   "Speed Yellow" that neither proves nor disproves)
  *
- * - confirmed: required phrase appears in evidence
- * - unknown: evidence present but does not confirm
+ * Only a structured field can contradict; free text never does, because
+ * absence of evidence must not hard-fail a candidate. `ignore` strips
+ * words like the make/model that providers echo into trim fields.
  *
- * NOTE: We intentionally do NOT return "contradicted" yet; absence of
- * evidence should not hard-fail a candidate, only downgrade it.
+ * Also reports which source decided it, the text that matched and, when
+ * confirmed, which acceptable value it was.
  */
-type MatchResult = "confirmed" | "unknown";
+type MatchResult = "confirmed" | "unknown" | "contradicted";
+
+type MatchSource = { name: keyof CandidateSignals; value?: string };
 
 function strictAttributeMatch(
-  required: string | undefined,
-  evidence: (string | undefined)[]
-): MatchResult {
-  if (!required) return "confirmed";
-
-  const req = required.toLowerCase();
-  const haystack = evidence
-    .filter(Boolean)
-    .join(" ")
-    .toLowerCase();
-
-  if (!haystack) return "unknown";
-  if (haystack.includes(req)) return "confirmed";
-  return "unknown";
+  acceptable: string[] | undefined,
+  field: MatchSource,
+  evidence: MatchSource[],
+  ignore: (string | undefined)[] = []
+): { result: MatchResult; source?: string; matched?: string; value?: string } {
+  const wanted = (acceptable ?? []).map((value) => ({ value, req: tokens(value) })).filter((x) => x.req.length);
+  if (!wanted.length) return { result: "confirmed" };
+
+  for (const { value, req } of wanted) {
+    const phrase = new RegExp(`\\b${req.map(escapeRe).join("\\W+")}\\b`);
+    for (const s of [field, ...evidence]) {
+      const m = s.value ? phrase.exec(s.value.toLowerCase()) : null;
+      if (m) return { result: "confirmed", source: s.name, matched: s.value!.slice(m.index, m.index + m[0].length), value };
+    }
+  }
+
+  if (field.value) {
+    const ignored = new Set(ignore.filter(Boolean).flatMap((x) => tokens(x!)));
+    const fieldTokens = informativeTokens(field.value).filter((t) => !ignored.has(t));
+    const req = new Set(wanted.flatMap((x) => x.req));
+    if (fieldTokens.length && !fieldTokens.some((t) => req.has(t))) {
+      return { result: "contradicted", source: field.name, matched: field.value };
+    }
+  }
+
+  return { result: "unknown" };
 }
 
 export function scoreAndTier(
@@ -59,28 +104,32 @@ export function scoreAndTier(
   const discovery: Candidate[] = [];
   const rejected: Candidate[] = [];
 
+  // Comparables come from the whole fetched set, including listings gated out below
+  const market = buildMarketModel(seed, signalsAndCandidates.map((x) => x.sig));
+  const profile = seed.scoring ?? defaultScoringProfile();
+  const w = profile.weights;
+
   for (const { sig, candidate } of signalsAndCandidates) {
-    const reasons: string[] = [];
-    let score = 50;
+    const evidence: Evidence[] = [];
+
+    // Record a finding; its delta (if any) is what moves the score
+    const note = (e: Omit<Evidence, "delta"> & { delta?: number }) => {
+      evidence.push({ ...e, delta: e.delta ?? 0 });
+    };
+
+    const reject = (e: Omit<Evidence, "delta" | "outcome" | "gating">) => {
+      const ev: Evidence = { ...e, outcome: "contradicted", delta: 0, gating: true };
+      rejected.push({ ...candidate, verdict: "REJECT", score: 0, rationale: [ev.text], evidence: [ev] });
+    };
 
     // ---- Identity sanity gates ----
     if (seed.make && sig.make && !includesCI(sig.make, seed.make)) {
-      rejected.push({
-        ...candidate,
-        verdict: "REJECT",
-        score: 0,
-        rationale: ["Wrong make"],
-      });
+      reject({ attribute: "make", source: "make", matched: sig.make, text: "Wrong make" });
       continue;
     }
 
     if (seed.model && sig.model && !includesCI(sig.model, seed.model)) {
-      rejected.push({
-        ...candidate,
-        verdict: "REJECT",
-        score: 0,
-        rationale: ["Wrong model"],
-      });
+      reject({ attribute: "model", source: "model", matched: sig.model, text: "Wrong model" });
       continue;
     }
 
@@ -92,17 +141,88 @@ export function scoreAndTier(
         (!seed.yearMax || sig.year <= seed.yearMax));
 
     if (!yearOk) {
-      rejected.push({
-        ...candidate,
-        verdict: "REJECT",
-        score: 0,
-        rationale: ["Year outside required range"],
+      reject({
+        attribute: "year",
+        source: "year",
+        matched: sig.year != null ? String(sig.year) : undefined,
+        text: "Year outside required range",
       });
       continue;
     }
 
     if (seed.yearMin && sig.year == null) {
-      reasons.push("Year not specified (verify)");
+      note({ attribute: "year", outcome: "unknown", source: "year", gating: true, text: "Year not specified (verify)" });
+    }
+
+    // ---- Geography gating (watch include/exclude) ----
+    const st = stateCode(sig.state);
+
+    if (st && seed.statesExclude?.includes(st)) {
+      reject({ attribute: "location", source: "state", matched: st, text: `Located in an excluded region (${st})` });
+      continue;
+    }
+
+    if (st && seed.statesInclude?.length && !seed.statesInclude.includes(st)) {
+      reject({ attribute: "location", source: "state", matched: st, text: `Located outside the included regions (${st})` });
+      continue;
+    }
+
+    if (!st && (seed.statesInclude?.length || seed.statesExclude?.length)) {
+      note({ attribute: "location", outcome: "unknown", source: "state", text: "Location unknown (verify region)" });
+    }
+
+    if (st && seed.statesDeprioritize?.includes(st)) {
+      note({
+        attribute: "location",
+        outcome: "contradicted",
+        source: "state",
+        matched: st,
+        delta: w.deprioritizedRegion,
+        text: `In a deprioritized region (${st})`,
+      });
+    }
+
+    // ---- Distance and transport (from the buyer's home) ----
+    const distanceMi = st && seed.home ? stateDistanceMiles(seed.home.state, st) : undefined;
+    const transportUsd = distanceMi != null ? estimateTransportUsd(distanceMi) : undefined;
+
+    if (distanceMi != null) {
+      note({
+        attribute: "location",
+        outcome: "confirmed",
+        source: "state",
+        matched: st,
+        text:
+          distanceMi === 0
+            ? `In your state (${st})`
+            : !transportUsd
+              ? `~${distanceMi.toLocaleString()} mi from ${seed.home!.label} (drivable)`
+              : `~${distanceMi.toLocaleString()} mi from ${seed.home!.label}; est. transport $${transportUsd.toLocaleString()}`,
+      });
+    }
+
+    // ---- VIN evidence (offline decode) ----
+    const vin = sig.vinDecode;
+    if (vin?.checkDigit === "invalid") {
+      note({
+        attribute: "vin",
+        outcome: "unknown",
+        source: "vin",
+        matched: vin.vin,
+        text: "VIN check digit does not verify (typo or non-US VIN); decode not used",
+      });
+    } else if (vin?.yearMismatch) {
+      note({
+        attribute: "year",
+        outcome: "contradicted",
+        source: "vin",
+        matched: String(vin.year),
+        delta: w.vinYearMismatch,
+        text: `VIN decodes to model year ${vin.year}, listing says ${sig.year} (verify)`,
+      });
+    } else if (vin?.model) {
+      const decoded = [vin.year, vin.make, vin.model, vin.trim, vin.engine].filter(Boolean).join(" ");
+      note({ attribute: "vin", outcome: "confirmed", source: "vin", matched: vin.vin, text: `VIN decodes to ${decoded}` });
     }
 
     // ---- Transmission ----
@@ -110,109 +230,261 @@ export function scoreAndTier(
     const txOk = seed.transmission !== "manual" || sigTx === "manual";
 
     if (!txOk) {
-      rejected.push({
-        ...candidate,
-        verdict: "REJECT",
-        score: 0,
-        rationale: ["Transmission does not meet requirement"],
+      reject({
+        attribute: "transmission",
+        source: "transmission",
+        matched: sig.transmission,
+        text: "Transmission does not meet requirement",
       });
       continue;
     }
 
     if (seed.transmission === "manual") {
-      reasons.push("Manual transmission");
-      score += 10;
+      note({
+        attribute: "transmission",
+        outcome: "confirmed",
+        source: "transmission",
+        matched: sig.transmission,
+        delta: w.manual,
+        gating: true,
+        text: "Manual transmission",
+      });
     }
 
     // ---- Trim (generic, evidence-based) ----
-    const trimEvidence = [
-      sig.trim,
-      sig.rawText,
-    ];
+    const trims = seed.trims?.length ? seed.trims : undefined;
+    const trim = strictAttributeMatch(
+      trims,
+      { name: "trim", value: sig.trim },
+      [{ name: "rawText", value: sig.rawText }],
+      [sig.make, sig.model]
+    );
 
-    const trimMatch = strictAttributeMatch(seed.trim, trimEvidence);
+    if (trims && trim.result === "contradicted") {
+      reject({
+        attribute: "trim",
+        source: trim.source!,
+        matched: trim.matched,
+        text: `Trim contradicted by provider field (trim: ${sig.trim}; required ${trims.join(" or ")})`,
+      });
+      continue;
+    }
 
-    if (seed.trim) {
-      if (trimMatch === "confirmed") {
-        score += 8;
-        reasons.push(`Trim confirmed (${seed.trim})`);
+    if (trims) {
+      if (trim.result === "confirmed") {
+        note({
+          attribute: "trim",
+          outcome: "confirmed",
+          source: trim.source!,
+          matched: trim.matched,
+          delta: w.trimConfirmed,
+          gating: true,
+          text: `Trim confirmed (${trim.value})`,
+        });
       } else {
-        reasons.push(`Trim not confirmed (${seed.trim})`);
+        note({
+          attribute: "trim",
+          outcome: "unknown",
+          source: "trim",
+          gating: true,
+          text: `Trim not confirmed (${trims.join(" or ")})`,
+        });
       }
     }
 
     // ---- Color (generic, strict semantic) ----
-    const colorEvidence = [
-      sig.exteriorColor,
-      sig.rawText,
-    ];
+    const colors = seed.colors?.length ? seed.colors : undefined;
+    const color = strictAttributeMatch(
+      colors,
+      { name: "exteriorColor", value: sig.exteriorColor },
+      [{ name: "rawText", value: sig.rawText }]
+    );
 
-    const colorMatch = strictAttributeMatch(seed.exteriorColor, colorEvidence);
+    if (colors && color.result === "contradicted") {
+      reject({
+        attribute: "exterior_color",
+        source: color.source!,
+        matched: color.matched,
+        text: `Color contradicted by provider field (exteriorColor: ${sig.exteriorColor}; required ${colors.join(" or ")})`,
+      });
+      continue;
+    }
 
-    if (seed.exteriorColor) {
-      if (colorMatch === "confirmed") {
-        score += 12;
-        reasons.push(`Color confirmed (${seed.exteriorColor})`);
+    if (colors) {
+      if (color.result === "confirmed") {
+        note({
+          attribute: "exterior_color",
+          outcome: "confirmed",
+          source: color.source!,
+          matched: color.matched,
+          delta: w.colorConfirmed,
+          gating: true,
+          text: `Color confirmed (${color.value})`,
+        });
       } else {
-        reasons.push(`Color not confirmed (${seed.exteriorColor})`);
+        note({
+          attribute: "exterior_color",
+          outcome: "unknown",
+          source: "exteriorColor",
+          gating: true,
+          text: `Color not confirmed (${colors.join(" or ")})`,
+        });
       }
     }
 
-    // ---- Budget ----
+    // ---- Budget (on effective price: asking + transport) ----
+    const effectivePrice = sig.price != null ? sig.price + (transportUsd ?? 0) : undefined;
+    const withTransport = effectivePrice != null && !!transportUsd ? ` ($${effectivePrice.toLocaleString()} with transport)` : "";
     const budgetOk =
       !seed.budgetMaxUsd ||
-      (sig.price != null && sig.price <= seed.budgetMaxUsd);
+      (effectivePrice != null && effectivePrice <= seed.budgetMaxUsd);
 
     if (seed.budgetMaxUsd) {
+      const price = sig.price != null ? String(sig.price) : undefined;
       if (budgetOk && sig.price != null) {
-        score += 8;
-        reasons.push("Within budget");
+        note({
+          attribute: "price",
+          outcome: "confirmed",
+          source: "price",
+          matched: price,
+          delta: w.withinBudget,
+          gating: true,
+          text: `Within budget${withTransport}`,
+        });
       } else if (sig.price != null) {
-        reasons.push("Over budget");
-        score -= 10;
+        note({
+          attribute: "price",
+          outcome: "contradicted",
+          source: "price",
+          matched: price,
+          delta: w.overBudget,
+          gating: true,
+          text: `Over budget${withTransport}`,
+        });
       } else {
-        reasons.push("Price unknown");
+        note({ attribute: "price", outcome: "unknown", source: "price", gating: true, text: "Price unknown" });
       }
     }
 
+    // ---- Market value (comparables) ----
+    const deal = assessDeal(market, sig, { per10Pct: w.dealPer10Pct, max: w.dealMax });
+    if (deal) {
+      note({ attribute: "market_value", outcome: "confirmed", source: "comparables", delta: deal.points, text: deal.reason });
+    }
+
     // ---- Mileage preferences ----
     if (sig.miles != null) {
+      const miles = String(sig.miles);
       if (seed.mileageIdealMax && sig.miles <= seed.mileageIdealMax) {
-        score += 10;
-        reasons.push(`Mileage ideal (≤${seed.mileageIdealMax.toLocaleString()} mi)`);
+        note({
+          attribute: "mileage",
+          outcome: "confirmed",
+          source: "miles",
+          matched: miles,
+          delta: w.mileageIdeal,
+          text: `Mileage ideal (≤${seed.mileageIdealMax.toLocaleString()} mi)`,
+        });
       } else if (seed.mileageOkMax && sig.miles <= seed.mileageOkMax) {
-        score += 5;
-        reasons.push(`Mileage acceptable (≤${seed.mileageOkMax.toLocaleString()} mi)`);
+        note({
+          attribute: "mileage",
+          outcome: "confirmed",
+          source: "miles",
+          matched: miles,
+          delta: w.mileageOk,
+          text: `Mileage acceptable (≤${seed.mileageOkMax.toLocaleString()} mi)`,
+        });
       } else if (seed.mileageOkMax && sig.miles > seed.mileageOkMax) {
-        score -= 8;
-        reasons.push("Mileage above preference");
+        note({
+          attribute: "mileage",
+          outcome: "contradicted",
+          source: "miles",
+          matched: miles,
+          delta: w.mileageOver,
+          text: "Mileage above preference",
+        });
       }
     } else {
-      reasons.push("Mileage unknown");
+      note({ attribute: "mileage", outcome: "unknown", source: "miles", text: "Mileage unknown" });
     }
 
-    // ---- Salt-road heuristic (location-based, non-fatal) ----
-    if (seed.avoidSaltHistory && sig.state) {
-      reasons.push("Verify salt-road history");
+    // ---- Listing history (our own sightings across runs) ----
+    const h = sig.history;
+    if (h) {
+      const seen = { attribute: "listing_history", outcome: "confirmed", source: "observations" } as const;
+      if (h.priceDrop && h.firstPrice != null) {
+        note({ ...seen, text: `Price dropped $${h.priceDrop.toLocaleString()} since first seen (was $${h.firstPrice.toLocaleString()})` });
+      }
+      if (h.daysListed >= 1) {
+        const since = new Date(h.firstSeenAt).toISOString().slice(0, 10);
+        note({ ...seen, text: `Listed at least ${h.daysListed} day${h.daysListed === 1 ? "" : "s"} (first seen ${since})` });
+      }
+      if (h.relisted) note({ ...seen, text: "Relisted after disappearing (ask why)" });
+    }
+
+    // ---- Salt-road risk (listing state, non-fatal) ----
+    if (seed.avoidSaltHistory) {
+      if (!st) {
+        note({ attribute: "history", outcome: "unknown", source: "state", text: "Location unknown (verify salt-road history)" });
+      } else if (isSaltBelt(st)) {
+        note({
+          attribute: "history",
+          outcome: "contradicted",
+          source: "state",
+          matched: st,
+          delta: w.saltBelt,
+          text: `Listed in a salt-belt state (${st}); inspect underbody for rust`,
+        });
+      } else {
+        // Where it is listed is not where it lived
+        note({
+          attribute: "history",
+          outcome: "unknown",
+          source: "state",
+          matched: st,
+          text: `Listed outside the salt belt (${st}); verify where it lived`,
+        });
+      }
     }
 
     // ---- Tier-1 gate (explicit, monotonic) ----
     const tier1Pass =
-      (!seed.trim || trimMatch === "confirmed") &&
-      (!seed.exteriorColor || colorMatch === "confirmed") &&
+      (!trims || trim.result === "confirmed") &&
+      (!colors || color.result === "confirmed") &&
       txOk &&
       yearOk &&
       budgetOk;
 
+    // ---- Score and its breakdown, both from the evidence ----
+    const breakdown = [
+      { label: `Base (${profile.label} profile)`, points: w.base },
+      ...evidence.filter((e) => e.delta).map((e) => ({ label: e.text, points: e.delta })),
+    ];
+    const raw = breakdown.reduce((sum, l) => sum + l.points, 0);
+    const score = Math.max(0, Math.min(100, Math.round(raw)));
+    if (score !== raw) breakdown.push({ label: "Clamped to 0–100", points: score - raw });
+
     const out: Candidate = {
       ...candidate,
-      score: Math.max(0, Math.min(100, Math.round(score))),
-      rationale: reasons,
+      score,
+      rationale: evidence.map((e) => e.text),
       verdict: "CONDITIONAL",
+      breakdown,
+      evidence,
+      ...(deal ? { market: deal.market } : {}),
+      ...(h ? { history: h } : {}),
+      ...(st
+        ? {
+            location: {
+              state: st,
+              saltBelt: isSaltBelt(st),
+              ...(distanceMi != null ? { distanceMi, transportUsd, effectivePrice } : {}),
+            },
+          }
+        : {}),
     };
 
     if (tier1Pass) {
-      out.verdict = out.score >= 75 ? "ACCEPT" : "CONDITIONAL";
+      out.verdict = out.score >= w.acceptThreshold ? "ACCEPT" : "CONDITIONAL";
       finalists.push(out);
     } else {
       discovery.push(out);
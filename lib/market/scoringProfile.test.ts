@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { AgentSession, Candidate } from "@/lib/agent/schema";
+import { defaultSession } from "@/lib/agent/session";
+import type { ExploreSeed } from "./exploreSeed";
+import { buildCandidateFromSignals, type CandidateSignals } from "./normalizeCandidate";
+import { scoreAndTier } from "./scoreAndTier";
+import { resolveScoringProfile, SCORING_PROFILES } from "./scoringProfile";
+
+function session(patch: (s: AgentSession) => void = () => {}) {
+  const s = defaultSession("t");
+  patch(s);
+  return s;
+}
+
+test("an explicit choice wins over usage, and weight overrides apply on top", () => {
+  const s = session((s) => {
+    s.intent.usage = { track_bias: "high" };
+    s.scoring = { profile: "collector", weights: { acceptThreshold: 90 } };
+  });
+  const p = resolveScoringProfile(s);
+  assert.equal(p.name, "collector");
+  assert.equal(p.source, "session");
+  assert.equal(p.weights.acceptThreshold, 90);
+  assert.equal(p.weights.colorConfirmed, SCORING_PROFILES.collector.weights.colorConfirmed);
+});
+
+test("usage and horizon pick a profile when the session has none", () => {
+  const pick = (patch: (s: AgentSession) => void) => {
+    const p = resolveScoringProfile(session(patch));
+    return [p.name, p.source];
+  };
+  assert.deepEqual(pick(() => {}), ["balanced", "default"]);
+  assert.deepEqual(pick((s) => (s.intent.usage = { track_bias: "high" })), ["track_build", "usage"]);
+  assert.deepEqual(pick((s) => (s.intent.usage = { show_bias: "high" })), ["collector", "usage"]);
+  assert.deepEqual(pick((s) => (s.intent.horizon = "short_term")), ["daily_driver", "usage"]);
+  // Unknown names from an old or hand-edited session fall back
+  assert.deepEqual(pick((s) => (s.scoring = { profile: "drag_racer" as never })), ["balanced", "default"]);
+});
+
+test("the same listing scores and tiers differently under different profiles", () => {
+  const sig: CandidateSignals = {
+    year: 2004,
+    make: "Porsche",
+    model: "Boxster",
+    trim: "S",
+    transmission: "Manual",
+    exteriorColor: "Speed Yellow",
+    price: 23000,
+    miles: 45000,
+    url: "https://example.test/boxster",
+  };
+  const seed = (profile: keyof typeof SCORING_PROFILES, weights?: { acceptThreshold: number }): ExploreSeed => ({
+    make: "Porsche",
+    model: "Boxster",
+    trims: ["S"],
+    transmission: "manual",
+    colors: ["speed yellow"],
+    budgetMaxUsd: 25000,
+    scoring: resolveScoringProfile(session((s) => (s.scoring = { profile, weights }))),
+  });
+  const keepAll = (c: Candidate[]) => c;
+  const run = (...args: Parameters<typeof seed>) => {
+    const input = [{ sig, candidate: buildCandidateFromSignals(sig, 50, "CONDITIONAL", []) }];
+    return scoreAndTier(seed(...args), input, keepAll, keepAll).finalists[0];
+  };
+
+  // base + manual + trim + color + within budget
+  assert.equal(run("balanced").score, 50 + 10 + 8 + 12 + 8);
+  assert.equal(run("collector").score, 50 + 12 + 12 + 16 + 5);
+  assert.equal(run("track_build").score, 50 + 15 + 8 + 3 + 10);
+
+  assert.equal(run("balanced").verdict, "ACCEPT");
+  assert.equal(run("balanced", { acceptThreshold: 90 }).verdict, "CONDITIONAL");
+});
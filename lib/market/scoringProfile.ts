@@ -0,0 +1,121 @@
+// lib/market/scoringProfile.ts
+import type { AgentSession, ScoringProfile, ScoringProfileName, ScoringWeights } from "@/lib/agent/schema";
+
+/**
+ * Named scoring profiles. "balanced" is the original hardcoded weighting;
+ * the others shift points toward what that kind of buyer cares about.
+ *
+ * Selection: the session's explicit choice, else intent.usage / horizon,
+ * else balanced. Session weight overrides apply on top of whichever wins.
+ */
+
+const BALANCED: ScoringWeights = {
+  base: 50,
+  manual: 10,
+  trimConfirmed: 8,
+  colorConfirmed: 12,
+  withinBudget: 8,
+  overBudget: -10,
+  mileageIdeal: 10,
+  mileageOk: 5,
+  mileageOver: -8,
+  dealPer10Pct: 5,
+  dealMax: 10,
+  vinYearMismatch: -10,
+  deprioritizedRegion: -5,
+  saltBelt: -8,
+  acceptThreshold: 75,
+};
+
+export const SCORING_PROFILES: Record<ScoringProfileName, { label: string; weights: ScoringWeights }> = {
+  balanced: { label: "Balanced", weights: BALANCED },
+  // Originality and condition over price
+  collector: {
+    label: "Collector",
+    weights: {
+      ...BALANCED,
+      manual: 12,
+      trimConfirmed: 12,
+      colorConfirmed: 16,
+      withinBudget: 5,
+      overBudget: -6,
+      mileageIdeal: 14,
+      mileageOk: 4,
+      mileageOver: -12,
+      dealPer10Pct: 3,
+      dealMax: 6,
+      vinYearMismatch: -15,
+      saltBelt: -12,
+      acceptThreshold: 80,
+    },
+  },
+  // Price and running cost over spec
+  daily_driver: {
+    label: "Daily driver",
+    weights: {
+      ...BALANCED,
+      manual: 4,
+      trimConfirmed: 5,
+      colorConfirmed: 6,
+      withinBudget: 12,
+      overBudget: -15,
+      mileageIdeal: 8,
+      mileageOk: 6,
+      mileageOver: -5,
+      dealPer10Pct: 7,
+      dealMax: 14,
+      acceptThreshold: 70,
+    },
+  },
+  // Drivetrain and price; paint and odometer matter little
+  track_build: {
+    label: "Track build",
+    weights: {
+      ...BALANCED,
+      manual: 15,
+      colorConfirmed: 3,
+      withinBudget: 10,
+      overBudget: -12,
+      mileageIdeal: 4,
+      mileageOk: 3,
+      mileageOver: -3,
+      dealPer10Pct: 6,
+      dealMax: 12,
+      saltBelt: -6,
+      acceptThreshold: 70,
+    },
+  },
+};
+
+export function isScoringProfileName(x: unknown): x is ScoringProfileName {
+  return typeof x === "string" && x in SCORING_PROFILES;
+}
+
+// The default intent (street-driven, long-term keep) stays balanced
+function fromUsage(session: AgentSession): ScoringProfileName | undefined {
+  const u = session.intent?.usage;
+  const horizon = session.intent?.horizon;
+  if (u?.track_bias === "high") return "track_build";
+  if (u?.show_bias === "high") return "collector";
+  if (u?.street_bias === "high" && horizon === "short_term") return "daily_driver";
+  if (u?.street_bias === "low" && horizon === "long_term") return "collector";
+  return undefined;
+}
+
+export function resolveScoringProfile(session: AgentSession): ScoringProfile {
+  const chosen = session.scoring?.profile;
+  const usage = fromUsage(session);
+  const name: ScoringProfileName = isScoringProfileName(chosen) ? chosen : usage ?? "balanced";
+  const p = SCORING_PROFILES[name];
+
+  return {
+    name,
+    label: p.label,
+    weights: { ...p.weights, ...(session.scoring?.weights ?? {}) },
+    source: isScoringProfileName(chosen) || session.scoring?.weights ? "session" : usage ? "usage" : "default",
+  };
+}
+
+export function defaultScoringProfile(): ScoringProfile {
+  return { name: "balanced", label: SCORING_PROFILES.balanced.label, weights: BALANCED, source: "default" };
+}
@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { checkDigitValid, decodeVin, normalizeVin, withVinEvidence } from "./vin";
+
+test("check digit: valid, one character off, and the X remainder", () => {
+  assert.equal(checkDigitValid("WP0CB29894U610022"), true);
+  assert.equal(checkDigitValid("WP0CB29894U610023"), false);
+  assert.equal(checkDigitValid("WP0CA298X4U610033"), true); // remainder 10 -> "X"
+  assert.equal(checkDigitValid("11111111111111111"), true); // textbook all-ones VIN
+});
+
+test("normalizeVin rejects I/O/Q and wrong lengths", () => {
+  assert.equal(normalizeVin(" wp0cb29894u610022 "), "WP0CB29894U610022");
+  assert.equal(normalizeVin("WP0CB29894U61002"), undefined);
+  assert.equal(normalizeVin("WP0CB29894U61002O"), undefined);
+});
+
+test("decodes year, model, trim, generation and engine from the Porsche table", () => {
+  assert.deepEqual(decodeVin("WP0CB29894U610022"), {
+    vin: "WP0CB29894U610022",
+    checkDigit: "valid",
+    wmi: "WP0",
+    make: "Porsche",
+    year: 2004,
+    model: "Boxster",
+    trim: "S",
+    generation: "986",
+    engine: "3.2L flat-6",
+  });
+  // Same VDS, later year: 987, not 986
+  assert.equal(decodeVin("WP0CB29855U610066")?.generation, "987");
+});
+
+test("withVinEvidence fills gaps, keeps listing fields and flags a year mismatch", () => {
+  const filled = withVinEvidence({ make: "Porsche", model: "Boxster", year: 2004, vin: "WP0CB29864U610088" });
+  assert.equal(filled.trim, "S");
+  assert.match(filled.rawText ?? "", /3\.2l flat-6/);
+  assert.equal(filled.vinDecode?.yearMismatch, undefined);
+
+  const kept = withVinEvidence({ trim: "Base", year: 2003, vin: "WP0CB29894U610022" });
+  assert.equal(kept.trim, "Base");
+  assert.equal(kept.vinDecode?.yearMismatch, true);
+});
+
+test("an invalid check digit is recorded but contributes no evidence", () => {
+  const sig = withVinEvidence({ year: 2004, vin: "WP0CB29894U610023" });
+  assert.equal(sig.vinDecode?.checkDigit, "invalid");
+  assert.equal(sig.trim, undefined);
+  assert.equal(sig.rawText, undefined);
+});
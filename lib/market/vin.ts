@@ -0,0 +1,163 @@
+// lib/market/vin.ts
+import type { CandidateSignals } from "./normalizeCandidate";
+import { PORSCHE_VIN_PATTERNS } from "./vinPatterns";
+
+/**
+ * Offline VIN decoding (no network, no NHTSA vPIC).
+ *
+ * - Check digit (position 9): North American scheme. VINs built for other
+ *   markets may not carry one, so a failing check is reported, not fatal,
+ *   but decoded details from such a VIN are not used as evidence.
+ * - WMI (positions 1–3) -> make.
+ * - Model year (position 10): 30-year cycle, disambiguated by position 7
+ *   (letter = 2010+ cycle for passenger vehicles).
+ * - Manufacturer pattern tables match the VDS (positions 4–8) to model, trim,
+ *   generation and engine; register more with registerVinPatterns().
+ */
+
+export type VinPattern = {
+  vds: RegExp;              // tested against positions 4–8
+  years?: [number, number]; // model-year bounds, inclusive
+  model: string;
+  trim?: string;
+  generation?: string;
+  engine?: string;
+};
+
+export type VinDecode = {
+  vin: string;
+  checkDigit: "valid" | "invalid";
+  wmi: string;
+  make?: string;
+  year?: number;
+  model?: string;
+  trim?: string;
+  generation?: string;
+  engine?: string;
+  yearMismatch?: boolean; // decoded year differs from the listing's stated year
+};
+
+const WMI_MAKES: Record<string, string> = {
+  WP0: "Porsche",
+  WP1: "Porsche",
+  WBA: "BMW",
+  WBS: "BMW",
+  WBY: "BMW",
+  WAU: "Audi",
+  WUA: "Audi",
+  WVW: "Volkswagen",
+  WV1: "Volkswagen",
+  WDB: "Mercedes-Benz",
+  WDD: "Mercedes-Benz",
+  ZFF: "Ferrari",
+  ZHW: "Lamborghini",
+  SCF: "Aston Martin",
+  SAJ: "Jaguar",
+  SAL: "Land Rover",
+  JHM: "Honda",
+  "1HG": "Honda",
+  JH4: "Acura",
+  JM1: "Mazda",
+  JN1: "Nissan",
+  JF1: "Subaru",
+  JT2: "Toyota",
+  JTH: "Lexus",
+  "1G1": "Chevrolet",
+  "1GC": "Chevrolet",
+  "1N4": "Nissan",
+  "4T1": "Toyota",
+  "1FT": "Ford",
+  "1FA": "Ford",
+  "1C3": "Chrysler",
+  "2C3": "Dodge",
+  "5YJ": "Tesla",
+};
+
+const YEAR_CODES = "ABCDEFGHJKLMNPRSTVWXY123456789";
+
+const TRANSLIT: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9,
+};
+const WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+const patterns = new Map<string, VinPattern[]>();
+
+export function registerVinPatterns(wmis: string[], table: VinPattern[]): void {
+  for (const wmi of wmis) patterns.set(wmi, [...(patterns.get(wmi) ?? []), ...table]);
+}
+
+registerVinPatterns(["WP0"], PORSCHE_VIN_PATTERNS);
+
+export function normalizeVin(x: string): string | undefined {
+  const v = x.trim().toUpperCase();
+  return /^[A-HJ-NPR-Z0-9]{17}$/.test(v) ? v : undefined;
+}
+
+export function checkDigitValid(vin: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < 17; i++) {
+    const ch = vin[i];
+    const n = /\d/.test(ch) ? Number(ch) : TRANSLIT[ch];
+    if (n == null) return false;
+    sum += n * WEIGHTS[i];
+  }
+  const r = sum % 11;
+  return vin[8] === (r === 10 ? "X" : String(r));
+}
+
+function modelYear(vin: string, now = new Date()): number | undefined {
+  const i = YEAR_CODES.indexOf(vin[9]);
+  if (i === -1) return undefined;
+
+  let year = 1980 + i + (/[A-Z]/.test(vin[6]) ? 30 : 0);
+  // Position 7 is not a reliable cycle marker outside North America
+  if (year > now.getFullYear() + 1) year -= 30;
+  return year;
+}
+
+export function decodeVin(raw: string): VinDecode | undefined {
+  const vin = normalizeVin(raw);
+  if (!vin) return undefined;
+
+  const wmi = vin.slice(0, 3);
+  const year = modelYear(vin);
+  const vds = vin.slice(3, 8);
+  const p = (patterns.get(wmi) ?? []).find(
+    (x) => x.vds.test(vds) && (!x.years || (year != null && year >= x.years[0] && year <= x.years[1]))
+  );
+
+  return {
+    vin,
+    checkDigit: checkDigitValid(vin) ? "valid" : "invalid",
+    wmi,
+    make: WMI_MAKES[wmi],
+    year,
+    ...(p ? { model: p.model, trim: p.trim, generation: p.generation, engine: p.engine } : {}),
+  };
+}
+
+/**
+ * Add VIN-decoded evidence to a listing. Decoded values only fill gaps
+ * (the listing's own fields win), and decoded details are appended to rawText
+ * so trim matching can find them. A year contradiction is flagged, not fixed.
+ */
+export function withVinEvidence(sig: CandidateSignals): CandidateSignals {
+  const d = sig.vin ? decodeVin(sig.vin) : undefined;
+  if (!d) return sig;
+  if (d.checkDigit === "invalid") return { ...sig, vinDecode: d };
+
+  const decode: VinDecode = { ...d, ...(sig.year != null && d.year != null && sig.year !== d.year ? { yearMismatch: true } : {}) };
+  const extra = [d.model, d.trim, d.generation, d.engine].filter(Boolean).join(" ").toLowerCase();
+
+  return {
+    ...sig,
+    year: sig.year ?? d.year,
+    make: sig.make ?? d.make,
+    model: sig.model ?? d.model,
+    trim: sig.trim ?? d.trim,
+    rawText: [sig.rawText, extra].filter(Boolean).join(" "),
+    vinDecode: decode,
+  };
+}
@@ -0,0 +1,30 @@
+// lib/market/vinPatterns.ts
+import type { VinPattern } from "./vin";
+
+/**
+ * Manufacturer VDS tables (VIN positions 4–8), first match wins.
+ * Only patterns we are confident in: a wrong trim here can contradict a
+ * listing, so leave a model out rather than guess.
+ */
+
+// Porsche (North America): position 4 body (A coupe, C cabriolet/roadster),
+// position 5 variant (A base, B "S"), positions 7–8 the first two digits of
+// the type number (98 -> 986/987 mid-engine; "A8" from model year 2010, when
+// position 7 became a letter).
+export const PORSCHE_VIN_PATTERNS: VinPattern[] = [
+  // Boxster 986
+  { vds: /^CA298$/, years: [1997, 1999], model: "Boxster", trim: "Base", generation: "986", engine: "2.5L flat-6" },
+  { vds: /^CA298$/, years: [2000, 2004], model: "Boxster", trim: "Base", generation: "986", engine: "2.7L flat-6" },
+  { vds: /^CB298$/, years: [2000, 2004], model: "Boxster", trim: "S", generation: "986", engine: "3.2L flat-6" },
+
+  // Boxster 987
+  { vds: /^CA298$/, years: [2005, 2008], model: "Boxster", trim: "Base", generation: "987", engine: "2.7L flat-6" },
+  { vds: /^CA2[9A]8$/, years: [2009, 2012], model: "Boxster", trim: "Base", generation: "987", engine: "2.9L flat-6" },
+  { vds: /^CB298$/, years: [2005, 2006], model: "Boxster", trim: "S", generation: "987", engine: "3.2L flat-6" },
+  { vds: /^CB2[9A]8$/, years: [2007, 2012], model: "Boxster", trim: "S", generation: "987", engine: "3.4L flat-6" },
+
+  // Cayman 987c
+  { vds: /^AB2[9A]8$/, years: [2006, 2012], model: "Cayman", trim: "S", generation: "987", engine: "3.4L flat-6" },
+  { vds: /^AA298$/, years: [2007, 2008], model: "Cayman", trim: "Base", generation: "987", engine: "2.7L flat-6" },
+  { vds: /^AA2[9A]8$/, years: [2009, 2012], model: "Cayman", trim: "Base", generation: "987", engine: "2.9L flat-6" },
+];
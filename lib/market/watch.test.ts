@@ -0,0 +1,84 @@
+import { after, afterEach, beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { AgentSession, WatchSpec } from "@/lib/agent/schema";
+import { defaultSession } from "@/lib/agent/session";
+import { parseConstraintText } from "@/lib/agent/constraints";
+import { applyWatchUpdate, ensureWatch } from "./watch";
+import { getWatch, listWatchRecords } from "./watchStore";
+
+const dir = mkdtempSync(path.join(tmpdir(), "watches-"));
+
+beforeEach(() => {
+  process.env.WATCH_STORE_PATH = path.join(dir, `${Math.random().toString(36).slice(2)}.json`);
+  process.env.LISTING_PROVIDERS = "fixture";
+});
+
+afterEach(() => {
+  delete process.env.LISTING_PROVIDERS;
+});
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+  delete process.env.WATCH_STORE_PATH;
+});
+
+function hunt(watch?: Partial<WatchSpec>): AgentSession {
+  const s = defaultSession("t");
+  s.intent.vehicle = { make: "Porsche", model: "Boxster" };
+  s.constraints.tier1 = parseConstraintText("986.2 (2003-2004), manual", 1);
+  if (watch) s.watch = { must_have: [], acceptable: [], reject: [], sources: [], ...watch };
+  return s;
+}
+
+test("a new watch keeps the requested cadence and records the providers it searches", () => {
+  process.env.LISTING_PROVIDERS = "fixture,autodev";
+  const { watch, created } = ensureWatch(hunt({ cadence: "weekly" }));
+
+  assert.equal(created, true);
+  assert.equal(watch.cadence, "weekly");
+  assert.deepEqual(watch.sources, ["fixture", "autodev"]);
+});
+
+test("cadence defaults to daily", () => {
+  const { watch } = ensureWatch(hunt());
+  assert.equal(watch.cadence, "daily");
+  assert.deepEqual(watch.sources, ["fixture"]);
+});
+
+test("the same boundary reuses the stored watch", () => {
+  const first = ensureWatch(hunt());
+  const again = ensureWatch(hunt());
+
+  assert.equal(again.created, false);
+  assert.equal(listWatchRecords().length, 1);
+  assert.deepEqual(again.watch, JSON.parse(JSON.stringify(first.watch)));
+});
+
+test("asking again updates notify, cadence and geography on the stored watch", () => {
+  const first = ensureWatch(hunt({ cadence: "weekly" }));
+  const again = ensureWatch(hunt({ notify: [{ type: "email", to: ["a@b.com"] }], geography: { include: ["CA"] } }));
+
+  assert.equal(again.created, false);
+  assert.equal(again.updated, true);
+  assert.equal(listWatchRecords().length, 1);
+  // Unstated settings keep their stored values
+  assert.equal(again.watch.cadence, "weekly");
+  assert.deepEqual(again.watch.notify, [{ type: "email", to: ["a@b.com"] }]);
+  assert.deepEqual(again.watch.geography, { include: ["CA"] });
+  assert.deepEqual(getWatch(listWatchRecords()[0].key), again.watch);
+  assert.deepEqual(again.watch.must_have, first.watch.must_have);
+});
+
+test("an edit merges budget and geography field by field", () => {
+  const { watch } = ensureWatch(hunt({ geography: { include: ["CA"], exclude: ["NY"] } }));
+  const spec = { ...watch, budget: { max: 30000, notes: "firm" } };
+
+  const next = applyWatchUpdate(spec, { budget: { max: 28000 }, geography: { exclude: [] }, cadence: "weekly" });
+  assert.deepEqual(next.budget, { max: 28000, notes: "firm" });
+  assert.deepEqual(next.geography, { include: ["CA"], exclude: [] });
+  assert.equal(next.cadence, "weekly");
+  assert.deepEqual(next.must_have, watch.must_have);
+});
@@ -1,45 +1,100 @@
 // lib/market/watch.ts
 
 import type { AgentSession, WatchSpec } from "@/lib/agent/schema";
+import type { WatchUpdate } from "@/lib/agent/modelSchema";
 import { computeCanonicalBoundary } from "@/lib/agent/normalize";
-import { getWatch, setWatch } from "./watchStore";
+import { constraintKey, constraintTexts } from "@/lib/agent/constraints";
+import { getWatch, setWatch, updateWatchRecord } from "./watchStore";
+import { resolveProviders } from "./providers";
+import { seedLedger } from "./watchLedger";
+import { resolveScoringProfile } from "./scoringProfile";
 
-function canonicalWatchKey(session: AgentSession): string {
+export const DEFAULT_CADENCE: NonNullable<WatchSpec["cadence"]> = "daily";
+
+/**
+ * Watch identity comes from the structured boundary, so rephrasing a
+ * constraint ("Speed Yellow only" vs "must be Speed Yellow") reuses the same watch.
+ */
+function canonicalWatchKey(session: AgentSession, sources: string[]): string {
   const c = computeCanonicalBoundary(session);
   return JSON.stringify({
     goal: session.goal_type,
-    must_have: c.tier1 ?? [],
-    acceptable: c.tier2 ?? [],
+    must_have: (c.tier1 ?? []).map(constraintKey).sort(),
+    acceptable: (c.tier2 ?? []).map(constraintKey).sort(),
     reject: c.hard_rejections ?? [],
+    sources,
   });
 }
 
+/**
+ * How the watch runs, as opposed to what it matches: not part of the key,
+ * so asking again with new values updates the existing watch.
+ */
+function runSettings(session: AgentSession): Pick<WatchSpec, "notify" | "cadence" | "geography"> {
+  const w = session.watch;
+  return {
+    ...(w?.notify?.length ? { notify: w.notify } : {}),
+    ...(w?.cadence ? { cadence: w.cadence } : {}),
+    ...(w?.geography ? { geography: w.geography } : {}),
+  };
+}
+
 export function ensureWatch(session: AgentSession): {
   watch: WatchSpec;
   created: boolean;
+  updated?: boolean;
 } {
   const canonical = computeCanonicalBoundary(session);
 
   const spec: WatchSpec = {
-    must_have: canonical.tier1 ?? [],
-    acceptable: canonical.tier2 ?? [],
+    must_have: constraintTexts(canonical.tier1 ?? []),
+    acceptable: constraintTexts(canonical.tier2 ?? []),
     reject: canonical.hard_rejections ?? [],
-    sources: ["auto.dev"],
+    // The providers a run of this watch searches (LISTING_PROVIDERS)
+    sources: resolveProviders().map((p) => p.id),
+    constraints: [...(canonical.tier1 ?? []), ...(canonical.tier2 ?? [])],
+    vehicle: session.intent.vehicle,
+    budget: session.intent.budget?.max ? { max: session.intent.budget.max, notes: session.intent.budget.notes } : undefined,
+    location: session.intent.location,
+    geography: session.watch?.geography,
+    notify: session.watch?.notify,
+    cadence: session.watch?.cadence ?? DEFAULT_CADENCE,
+    scoring: resolveScoringProfile(session),
   };
 
-  const key = JSON.stringify({
-    goal: session.goal_type,
-    must_have: spec.must_have,
-    acceptable: spec.acceptable,
-    reject: spec.reject,
-    sources: spec.sources,
-  });
+  const key = canonicalWatchKey(session, spec.sources);
 
   const existing = getWatch(key);
   if (existing) {
-    return { watch: existing, created: false };
+    const merged: WatchSpec = { ...existing, ...runSettings(session) };
+    if (JSON.stringify(merged) === JSON.stringify(existing)) {
+      return { watch: existing, created: false };
+    }
+    updateWatchRecord(key, { spec: merged });
+    return { watch: merged, created: false, updated: true };
   }
 
-  setWatch(key, spec);
+  // Whatever Explore already showed is the baseline; only later arrivals are "new".
+  const ledger = seedLedger([
+    ...(session.finalists ?? []).filter((c) => !c.is_placeholder).map((candidate) => ({ candidate, tier1: true })),
+    ...(session.discovery ?? []).filter((c) => !c.is_placeholder).map((candidate) => ({ candidate, tier1: false })),
+  ]);
+
+  setWatch(key, spec, { sessionId: session.id, ledger });
   return { watch: spec, created: true };
 }
+
+/**
+ * Apply a user edit (PATCH /api/watches/:id). Budget and geography merge
+ * field by field, so setting budget.max keeps budget.notes; notify and
+ * cadence replace.
+ */
+export function applyWatchUpdate(spec: WatchSpec, update: Omit<WatchUpdate, "status">): WatchSpec {
+  const { budget, geography, ...rest } = update;
+  return {
+    ...spec,
+    ...rest,
+    ...(budget ? { budget: { ...spec.budget, ...budget } } : {}),
+    ...(geography ? { geography: { ...spec.geography, ...geography } } : {}),
+  };
+}
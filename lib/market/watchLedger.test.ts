@@ -0,0 +1,63 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Candidate } from "@/lib/agent/schema";
+import { applyRun, seedLedger, type LedgerInput } from "./watchLedger";
+
+const car = (id: string, price?: number, tier1 = true): LedgerInput => ({
+  candidate: { id, title: `Car ${id}`, price } as Candidate,
+  tier1,
+});
+
+const T0 = 1_000;
+const T1 = 2_000;
+const T2 = 3_000;
+
+test("classifies new, price-dropped and still-listed listings", () => {
+  const prior = seedLedger([car("a", 20000), car("b", 25000), car("c", 30000, false)], T0);
+  const { ledger, changes } = applyRun(prior, [car("a", 19000), car("b", 26000), car("c", 30000, false), car("d", 22000)], {
+    now: T1,
+    exhaustive: false,
+  });
+
+  assert.deepEqual(changes.new, ["d"]);
+  assert.deepEqual(changes.priceDropped, [{ id: "a", from: 20000, to: 19000 }]);
+  assert.deepEqual(changes.stillListed, ["b", "c"]);
+  assert.deepEqual(changes.delisted, []);
+  assert.deepEqual(changes.newTier1, ["d"]);
+
+  assert.equal(ledger.a.firstSeenAt, T0);
+  assert.equal(ledger.a.lastSeenAt, T1);
+  assert.equal(ledger.a.lastPrice, 19000);
+  assert.equal(prior.a.lastPrice, 20000, "prior ledger is not mutated");
+});
+
+test("absence is only delisting when the run was exhaustive", () => {
+  const prior = seedLedger([car("a", 20000), car("b", 25000)], T0);
+
+  const partial = applyRun(prior, [car("a", 20000)], { now: T1, exhaustive: false });
+  assert.deepEqual(partial.changes.delisted, []);
+  assert.equal(partial.ledger.b.delistedAt, undefined);
+
+  const full = applyRun(prior, [car("a", 20000)], { now: T1, exhaustive: true });
+  assert.deepEqual(full.changes.delisted, ["b"]);
+  assert.equal(full.ledger.b.delistedAt, T1);
+});
+
+test("a relisted car is new again and re-triggers Tier 1", () => {
+  const seeded = seedLedger([car("a", 20000)], T0);
+  const gone = applyRun(seeded, [], { now: T1, exhaustive: true }).ledger;
+  const { ledger, changes } = applyRun(gone, [car("a", 21000)], { now: T2, exhaustive: true });
+
+  assert.deepEqual(changes.new, ["a"]);
+  assert.deepEqual(changes.newTier1, ["a"]);
+  assert.equal(ledger.a.delistedAt, undefined);
+  assert.equal(ledger.a.firstSeenAt, T2);
+});
+
+test("newTier1 fires when a known listing newly passes Tier 1, and once per id", () => {
+  const prior = seedLedger([car("a", 20000, false)], T0);
+  const { changes } = applyRun(prior, [car("a", 20000, true), car("a", 20000, true)], { now: T1, exhaustive: false });
+
+  assert.deepEqual(changes.newTier1, ["a"]);
+  assert.deepEqual(changes.stillListed, ["a"]);
+});
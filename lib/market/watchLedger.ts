@@ -0,0 +1,96 @@
+// lib/market/watchLedger.ts
+
+import type { Candidate } from "@/lib/agent/schema";
+
+/**
+ * Per-watch "seen" ledger, keyed by candidate id (VIN/URL-based stableId).
+ *
+ * Each watch run is classified against the ledger:
+ * - new: never seen (or seen again after being delisted)
+ * - price_dropped: seen before, now cheaper
+ * - still_listed: seen before, price unchanged or higher
+ * - delisted: in the ledger but absent from an exhaustive run
+ *
+ * newTier1 is the notification trigger: listings that pass Tier 1 now and
+ * did not before (brand new, relisted, or newly confirmed).
+ *
+ * Absence only counts as delisted when the run scanned all available
+ * inventory; a budget-limited run may simply not have paged far enough.
+ */
+
+export type LedgerEntry = {
+  title: string;
+  url?: string;
+  firstSeenAt: number;
+  lastSeenAt: number;
+  lastPrice?: number;
+  tier1: boolean;
+  delistedAt?: number;
+};
+
+export type Ledger = Record<string, LedgerEntry>;
+
+export type PriceDrop = { id: string; from: number; to: number };
+
+export type LedgerChanges = {
+  new: string[];
+  priceDropped: PriceDrop[];
+  stillListed: string[];
+  delisted: string[];
+  newTier1: string[];
+};
+
+export type LedgerInput = { candidate: Candidate; tier1: boolean };
+
+export function seedLedger(items: LedgerInput[], now = Date.now()): Ledger {
+  const ledger: Ledger = {};
+  for (const { candidate: c, tier1 } of items) {
+    ledger[c.id] = { title: c.title, url: c.url, firstSeenAt: now, lastSeenAt: now, lastPrice: c.price, tier1 };
+  }
+  return ledger;
+}
+
+export function applyRun(
+  prior: Ledger,
+  items: LedgerInput[],
+  opts: { now?: number; exhaustive: boolean }
+): { ledger: Ledger; changes: LedgerChanges } {
+  const now = opts.now ?? Date.now();
+  const ledger: Ledger = structuredClone(prior);
+  const changes: LedgerChanges = { new: [], priceDropped: [], stillListed: [], delisted: [], newTier1: [] };
+  const seen = new Set<string>();
+
+  for (const { candidate: c, tier1 } of items) {
+    if (seen.has(c.id)) continue;
+    seen.add(c.id);
+
+    const prev = ledger[c.id];
+
+    if (tier1 && (!prev || prev.delistedAt != null || !prev.tier1)) changes.newTier1.push(c.id);
+
+    if (!prev || prev.delistedAt != null) {
+      changes.new.push(c.id);
+      ledger[c.id] = { title: c.title, url: c.url, firstSeenAt: now, lastSeenAt: now, lastPrice: c.price, tier1 };
+      continue;
+    }
+
+    if (prev.lastPrice != null && c.price != null && c.price < prev.lastPrice) {
+      changes.priceDropped.push({ id: c.id, from: prev.lastPrice, to: c.price });
+    } else {
+      changes.stillListed.push(c.id);
+    }
+
+    ledger[c.id] = { ...prev, title: c.title, url: c.url, lastSeenAt: now, lastPrice: c.price ?? prev.lastPrice, tier1 };
+  }
+
+  if (opts.exhaustive) {
+    for (const [id, entry] of Object.entries(ledger)) {
+      if (!seen.has(id) && entry.delistedAt == null) {
+        entry.delistedAt = now;
+        changes.delisted.push(id);
+      }
+    }
+  }
+
+  return { ledger, changes };
+}
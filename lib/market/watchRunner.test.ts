@@ -0,0 +1,51 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { AgentSession } from "@/lib/agent/schema";
+import { defaultSession } from "@/lib/agent/session";
+import { parseConstraintText } from "@/lib/agent/constraints";
+import { runLiveExplore } from "./liveExplore";
+import { ensureWatch } from "./watch";
+import { runWatch } from "./watchRunner";
+import { listWatchRecords } from "./watchStore";
+
+const dir = mkdtempSync(path.join(tmpdir(), "watch-runs-"));
+process.env.WATCH_STORE_PATH = path.join(dir, "watches.json");
+process.env.LISTING_HISTORY_PATH = path.join(dir, "listings.json");
+process.env.LISTING_PROVIDERS = "fixture";
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+  for (const k of ["WATCH_STORE_PATH", "LISTING_HISTORY_PATH", "LISTING_PROVIDERS"]) delete process.env[k];
+});
+
+function hunt(patch: (s: AgentSession) => void): AgentSession {
+  const s = defaultSession("t");
+  s.intent.vehicle = { make: "Porsche", model: "Boxster" };
+  s.constraints.tier1 = parseConstraintText("986.2 (2003-2004), manual, color: speed yellow", 1);
+  s.watch = { must_have: [], acceptable: [], reject: [], sources: [], notify: [{ type: "file", dir: path.join(dir, "outbox") }] };
+  patch(s);
+  return s;
+}
+
+test("a watch run scores with the profile the chat session resolved", async () => {
+  const chat = hunt((s) => {
+    s.intent.usage = { track_bias: "high" };
+    s.scoring = { weights: { acceptThreshold: 95 } };
+  });
+  const { watch } = ensureWatch(chat);
+  assert.equal(watch.scoring?.name, "track_build");
+  assert.equal(watch.scoring?.weights.acceptThreshold, 95);
+
+  const [record] = listWatchRecords();
+  const result = await runWatch(record);
+  const expected = (await runLiveExplore(chat)).session.finalists;
+
+  assert.ok(result.finalists.length > 0);
+  assert.deepEqual(
+    result.finalists.map((c) => [c.url, c.score, c.verdict]),
+    expected.map((c) => [c.url, c.score, c.verdict])
+  );
+});
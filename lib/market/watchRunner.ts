@@ -0,0 +1,116 @@
+// lib/market/watchRunner.ts
+
+import type { AgentSession, WatchSpec } from "@/lib/agent/schema";
+import { runLiveExplore } from "./liveExplore";
+import { DEFAULT_CADENCE } from "./watch";
+import { applyRun } from "./watchLedger";
+import { markDelisted } from "./observationStore";
+import { notifyWatch } from "@/lib/notify/notifier";
+import { listWatchRecords, updateWatchRecord, type WatchRecord, type WatchRunResult } from "./watchStore";
+
+const HOUR = 60 * 60 * 1000;
+
+const CADENCE_MS: Record<NonNullable<WatchSpec["cadence"]>, number> = {
+  daily: 24 * HOUR,
+  twice_weekly: 84 * HOUR, // 3.5 days
+  weekly: 7 * 24 * HOUR,
+};
+
+export function isDue(w: WatchRecord, now = Date.now()): boolean {
+  if (w.status !== "active") return false;
+  if (w.lastRunAt == null) return true;
+  return now - w.lastRunAt >= CADENCE_MS[w.spec.cadence ?? DEFAULT_CADENCE];
+}
+
+/**
+ * Rebuild a minimal session from the watch boundary so the watch re-runs
+ * exactly the S3 pipeline (seed -> providers -> scoreAndTier) a chat session would.
+ */
+function watchToSession(w: WatchRecord): AgentSession {
+  const cs = w.spec.constraints ?? [];
+  return {
+    id: w.sessionId ?? w.id,
+    state: "S3_EXPLORE",
+    goal_type: "vehicle_hunt",
+    intent: {
+      goal_type: "vehicle_hunt",
+      vehicle: w.spec.vehicle ?? {},
+      budget: w.spec.budget ?? {},
+      location: w.spec.location,
+    },
+    constraints: {
+      tier1: cs.filter((c) => c.tier === 1),
+      tier2: cs.filter((c) => c.tier === 2),
+      tier3: cs.filter((c) => c.tier === 3),
+    },
+    taste: {
+      era_correctness: "medium",
+      materials_allowed: [],
+      materials_excluded: [],
+      aesthetics: { aggression: "medium", branding: "subtle" },
+      authenticity: { oem: "preferred", repro: "conditional" },
+      rejection_rules: w.spec.reject ?? [],
+    },
+    finalists: [],
+    discovery: [],
+    watch: w.spec, // geography gates and deprioritizes like a chat session's watch
+    // The full resolved weights, so the run scores exactly as the chat did
+    ...(w.spec.scoring ? { scoring: { profile: w.spec.scoring.name, weights: w.spec.scoring.weights } } : {}),
+  };
+}
+
+/**
+ * Run one watch and record the outcome. Failures are recorded on the watch
+ * (and still advance lastRunAt) so one broken watch cannot hot-loop the runner.
+ */
+export async function runWatch(w: WatchRecord, now = Date.now()): Promise<WatchRunResult> {
+  let result: WatchRunResult;
+
+  try {
+    const { session, scored } = await runLiveExplore(watchToSession(w));
+    const { ledger, changes } = applyRun(
+      w.ledger ?? {},
+      [
+        ...scored.finalists.map((candidate) => ({ candidate, tier1: true })),
+        ...scored.discovery.map((candidate) => ({ candidate, tier1: false })),
+      ],
+      { now, exhaustive: session.explore_stats?.exhaustive ?? false }
+    );
+    markDelisted(changes.delisted, now);
+    const fresh = new Set(changes.newTier1);
+    const notify = scored.finalists.filter((c) => fresh.has(c.id));
+
+    result = {
+      ranAt: now,
+      finalists: session.finalists,
+      discovery: session.discovery,
+      stats: session.explore_stats,
+      changes,
+      notify,
+      deliveries: await notifyWatch(w, notify, now),
+    };
+    updateWatchRecord(w.id, { lastRunAt: now, lastResult: result, ledger });
+  } catch (e) {
+    // Ledger untouched: a failed run says nothing about what is still listed.
+    result = {
+      ranAt: now,
+      finalists: [],
+      discovery: [],
+      error: e instanceof Error ? e.message : String(e),
+    };
+    updateWatchRecord(w.id, { lastRunAt: now, lastResult: result });
+  }
+
+  return result;
+}
+
+/**
+ * Run every due watch, sequentially (providers are rate-limited; watches are few).
+ */
+export async function runDueWatches(now = Date.now()): Promise<{ watch: WatchRecord; result: WatchRunResult }[]> {
+  const out: { watch: WatchRecord; result: WatchRunResult }[] = [];
+  for (const w of listWatchRecords().filter((x) => isDue(x, now))) {
+    out.push({ watch: w, result: await runWatch(w, now) });
+  }
+  return out;
+}
@@ -1,21 +1,137 @@
 // lib/market/watchStore.ts
 
-import type { WatchSpec } from "@/lib/agent/schema";
+import fs from "node:fs";
+import path from "node:path";
+import type { Candidate, ExploreStats, WatchSpec } from "@/lib/agent/schema";
+import type { Ledger, LedgerChanges } from "./watchLedger";
+import type { Delivery } from "@/lib/notify/notifier";
 
-const store = new Map<string, WatchSpec>();
+/**
+ * Durable watch store (v1): a single JSON file.
+ *
+ * - Location: WATCH_STORE_PATH (default .data/watches.json)
+ * - Read on every call so separate server processes sharing the disk see
+ *   each other's writes; written atomically (tmp + rename).
+ * - Synchronous on purpose: the store is tiny and callers stay simple.
+ */
+
+export type WatchStatus = "active" | "paused";
+
+export type WatchRunResult = {
+  ranAt: number;
+  finalists: Candidate[];
+  discovery: Candidate[];
+  stats?: ExploreStats;
+  changes?: LedgerChanges;
+  notify?: Candidate[];  // new Tier 1 passes (the S5 "I'll notify you" promise)
+  deliveries?: Delivery[];
+  error?: string;
+};
+
+export type WatchRecord = {
+  id: string;           // short stable id derived from the key
+  key: string;          // canonical boundary key (see watch.ts)
+  spec: WatchSpec;
+  sessionId?: string;   // session that created the watch
+  createdAt: number;
+  lastRunAt?: number;
+  status: WatchStatus;
+  lastResult?: WatchRunResult;
+  ledger?: Ledger;
+};
+
+type StoreFile = { version: 1; watches: WatchRecord[] };
+
+function storePath() {
+  return path.resolve(process.cwd(), process.env.WATCH_STORE_PATH ?? ".data/watches.json");
+}
+
+function load(): WatchRecord[] {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(storePath(), "utf8")) as StoreFile;
+    return Array.isArray(parsed?.watches) ? parsed.watches : [];
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException)?.code === "ENOENT") return [];
+    throw e;
+  }
+}
+
+function save(watches: WatchRecord[]) {
+  const file = storePath();
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify({ version: 1, watches } satisfies StoreFile, null, 2) + "\n", "utf8");
+  fs.renameSync(tmp, file);
+}
+
+// FNV-1a, same scheme as candidate ids
+function watchId(key: string) {
+  let h = 2166136261;
+  for (let i = 0; i < key.length; i++) {
+    h ^= key.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return `watch-${(h >>> 0).toString(16)}`;
+}
 
 export function getWatch(key: string): WatchSpec | undefined {
-  return store.get(key);
+  return getWatchRecord(key)?.spec;
 }
 
-export function setWatch(key: string, watch: WatchSpec): void {
-  store.set(key, watch);
+export function getWatchRecord(keyOrId: string): WatchRecord | undefined {
+  return load().find((w) => w.key === keyOrId || w.id === keyOrId);
+}
+
+export function setWatch(
+  key: string,
+  watch: WatchSpec,
+  meta: { sessionId?: string; ledger?: Ledger } = {}
+): WatchRecord {
+  const watches = load();
+  const i = watches.findIndex((w) => w.key === key);
+
+  const record: WatchRecord =
+    i === -1
+      ? { id: watchId(key), key, spec: watch, sessionId: meta.sessionId, createdAt: Date.now(), status: "active", ledger: meta.ledger ?? {} }
+      : { ...watches[i], spec: watch, sessionId: meta.sessionId ?? watches[i].sessionId };
+
+  if (i === -1) watches.push(record);
+  else watches[i] = record;
+
+  save(watches);
+  return record;
+}
+
+export function updateWatchRecord(
+  keyOrId: string,
+  patch: Partial<Pick<WatchRecord, "spec" | "lastRunAt" | "status" | "lastResult" | "ledger">>
+): WatchRecord | undefined {
+  const watches = load();
+  const i = watches.findIndex((w) => w.key === keyOrId || w.id === keyOrId);
+  if (i === -1) return undefined;
+
+  watches[i] = { ...watches[i], ...patch };
+  save(watches);
+  return watches[i];
+}
+
+export function deleteWatch(keyOrId: string): boolean {
+  const watches = load();
+  const next = watches.filter((w) => w.key !== keyOrId && w.id !== keyOrId);
+  if (next.length === watches.length) return false;
+
+  save(next);
+  return true;
 }
 
 export function hasWatch(key: string): boolean {
-  return store.has(key);
+  return getWatchRecord(key) != null;
 }
 
 export function listWatches(): WatchSpec[] {
-  return Array.from(store.values());
+  return load().map((w) => w.spec);
+}
+
+export function listWatchRecords(): WatchRecord[] {
+  return load();
 }
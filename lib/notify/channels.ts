@@ -0,0 +1,87 @@
+// lib/notify/channels.ts
+
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import nodemailer from "nodemailer";
+import type { NotifyChannelConfig } from "@/lib/agent/schema";
+import type { WatchNotification } from "./message";
+
+/**
+ * Notification channel contract: one send per notification.
+ * Channels throw on delivery failure; the notifier records the outcome.
+ */
+export type NotificationChannel<C extends NotifyChannelConfig = NotifyChannelConfig> = {
+  type: C["type"];
+  send(n: WatchNotification, config: C): Promise<void>;
+};
+
+const webhook: NotificationChannel<Extract<NotifyChannelConfig, { type: "webhook" }>> = {
+  type: "webhook",
+  async send(n, config) {
+    const res = await fetch(config.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...(config.headers ?? {}) },
+      body: JSON.stringify(n.payload),
+    });
+    if (!res.ok) {
+      const text = await res.text().catch(() => "");
+      throw new Error(`Webhook error ${res.status}: ${text.slice(0, 200)}`);
+    }
+  },
+};
+
+/**
+ * SMTP settings are deployment-wide (env); recipients are per watch.
+ * Point SMTP_HOST/SMTP_PORT at a local sink (e.g. MailHog on 1025) for testing.
+ */
+const email: NotificationChannel<Extract<NotifyChannelConfig, { type: "email" }>> = {
+  type: "email",
+  async send(n, config) {
+    const host = process.env.SMTP_HOST;
+    if (!host) {
+      throw new Error("Missing SMTP_HOST");
+    }
+    if (!config.to.length) {
+      throw new Error("Email channel has no recipients");
+    }
+
+    const transport = nodemailer.createTransport({
+      host,
+      port: parseInt(process.env.SMTP_PORT ?? "587", 10),
+      secure: process.env.SMTP_SECURE === "true",
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS ?? "" } : undefined,
+    });
+
+    await transport.sendMail({
+      from: process.env.SMTP_FROM ?? "auto-agent@localhost",
+      to: config.to.join(", "),
+      subject: n.subject,
+      text: n.text,
+    });
+  },
+};
+
+/**
+ * Local outbox: one JSON file per notification. Default channel, so the
+ * S5 promise is kept even with nothing configured.
+ */
+const file: NotificationChannel<Extract<NotifyChannelConfig, { type: "file" }>> = {
+  type: "file",
+  async send(n, config) {
+    const dir = path.resolve(process.cwd(), config.dir ?? process.env.NOTIFY_OUTBOX_DIR ?? ".data/outbox");
+    await mkdir(dir, { recursive: true });
+    const name = `${n.payload.ranAt}-${n.payload.watchId}.json`;
+    await writeFile(path.join(dir, name), JSON.stringify({ subject: n.subject, text: n.text, payload: n.payload }, null, 2) + "\n", "utf8");
+  },
+};
+
+export async function sendToChannel(n: WatchNotification, config: NotifyChannelConfig): Promise<void> {
+  switch (config.type) {
+    case "webhook":
+      return webhook.send(n, config);
+    case "email":
+      return email.send(n, config);
+    case "file":
+      return file.send(n, config);
+  }
+}
@@ -0,0 +1,68 @@
+// lib/notify/message.ts
+
+import type { Candidate } from "@/lib/agent/schema";
+import type { WatchRecord } from "@/lib/market/watchStore";
+
+/**
+ * Channel-neutral notification. Channels pick the representation they need:
+ * webhook posts `payload`, email sends `subject` + `text`, the outbox writes both.
+ */
+export type WatchNotification = {
+  subject: string;
+  text: string;
+  payload: {
+    type: "watch.new_tier1";
+    watchId: string;
+    sessionId?: string;
+    ranAt: number;
+    mustHave: string[];
+    candidates: { id: string; title: string; url?: string; score: number; verdict: Candidate["verdict"]; rationale: string[] }[];
+  };
+};
+
+function vehicleLabel(w: WatchRecord) {
+  const v = w.spec.vehicle ?? {};
+  return [v.make, v.model, v.gen, v.trim].filter(Boolean).join(" ") || "your watch";
+}
+
+export function renderWatchNotification(w: WatchRecord, candidates: Candidate[], ranAt: number): WatchNotification {
+  const n = candidates.length;
+  const subject = `${n} new listing${n === 1 ? "" : "s"} meet${n === 1 ? "s" : ""} all Tier 1 constraints — ${vehicleLabel(w)}`;
+
+  const blocks = candidates.map((c, i) =>
+    [
+      `${i + 1}. ${c.title} (score ${c.score}, ${c.verdict})`,
+      c.url ? `   ${c.url}` : undefined,
+      ...c.rationale.map((r) => `   - ${r}`),
+    ]
+      .filter(Boolean)
+      .join("\n")
+  );
+
+  const text =
+    `${subject}\n\n` +
+    `Tier 1 boundary:\n` +
+    (w.spec.must_have.length ? w.spec.must_have.map((x) => `- ${x}`).join("\n") : "- (none captured)") +
+    `\n\n${blocks.join("\n\n")}\n\n` +
+    `Watch ${w.id} · run ${new Date(ranAt).toISOString()}`;
+
+  return {
+    subject,
+    text,
+    payload: {
+      type: "watch.new_tier1",
+      watchId: w.id,
+      sessionId: w.sessionId,
+      ranAt,
+      mustHave: w.spec.must_have,
+      candidates: candidates.map((c) => ({
+        id: c.id,
+        title: c.title,
+        url: c.url,
+        score: c.score,
+        verdict: c.verdict,
+        rationale: c.rationale,
+      })),
+    },
+  };
+}
@@ -0,0 +1,29 @@
+// lib/notify/notifier.ts
+
+import type { Candidate, NotifyChannelConfig } from "@/lib/agent/schema";
+import type { WatchRecord } from "@/lib/market/watchStore";
+import { renderWatchNotification } from "./message";
+import { sendToChannel } from "./channels";
+
+export type Delivery = { channel: NotifyChannelConfig["type"]; ok: boolean; error?: string };
+
+const DEFAULT_CHANNELS: NotifyChannelConfig[] = [{ type: "file" }];
+
+/**
+ * Fan a watch notification out to every configured channel.
+ * Channels are independent: one failing does not stop the others.
+ */
+export async function notifyWatch(w: WatchRecord, candidates: Candidate[], ranAt: number): Promise<Delivery[]> {
+  if (!candidates.length) return [];
+
+  const n = renderWatchNotification(w, candidates, ranAt);
+  const channels = w.spec.notify?.length ? w.spec.notify : DEFAULT_CHANNELS;
+
+  const settled = await Promise.allSettled(channels.map((c) => sendToChannel(n, c)));
+  return channels.map((c, i) => {
+    const r = settled[i];
+    return r.status === "fulfilled"
+      ? { channel: c.type, ok: true }
+      : { channel: c.type, ok: false, error: r.reason instanceof Error ? r.reason.message : String(r.reason) };
+  });
+}
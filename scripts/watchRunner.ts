@@ -0,0 +1,56 @@
+// scripts/watchRunner.ts
+//
+// Re-runs saved watches on their cadence.
+//
+//   npm run watch:once     one pass over due watches, then exit (cron)
+//   npm run watch:daemon   long-lived; polls every WATCH_POLL_MS (default 15 min)
+
+import { runDueWatches } from "@/lib/market/watchRunner";
+
+const once = process.argv.includes("--once");
+const pollMs = parseInt(process.env.WATCH_POLL_MS ?? "900000", 10);
+
+async function tick() {
+  const runs = await runDueWatches();
+  if (!runs.length) {
+    console.log(`[watch] ${new Date().toISOString()} no watches due`);
+    return;
+  }
+  for (const { watch, result } of runs) {
+    const summary = result.error
+      ? `failed: ${result.error}`
+      : `${result.finalists.length} finalists, ${result.discovery.length} discovery; ` +
+        `${result.changes?.new.length ?? 0} new, ${result.changes?.priceDropped.length ?? 0} price drops, ` +
+        `${result.changes?.delisted.length ?? 0} delisted, ${result.notify?.length ?? 0} to notify`;
+    console.log(`[watch] ${new Date(result.ranAt).toISOString()} ${watch.id} ${summary}`);
+  }
+}
+
+async function main() {
+  if (once) {
+    await tick();
+    return;
+  }
+
+  let stopping = false;
+  let timer: NodeJS.Timeout | undefined;
+  const stop = () => {
+    stopping = true;
+    if (timer) clearTimeout(timer);
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  while (!stopping) {
+    await tick().catch((e) => console.error("[watch] run failed:", e));
+    if (stopping) break;
+    await new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, pollMs);
+    });
+  }
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});